@@ -0,0 +1,175 @@
+import type { Plugin } from 'vite'
+
+/**
+ * Security headers for the static site, written to `_headers` at build time.
+ * See https://docs.netlify.com/routing/headers/
+ *
+ * The Content-Security-Policy allows scripts from this site, plus a hash of
+ * each inline script in the built HTML, so no policy needs `unsafe-inline`.
+ */
+
+/**
+ * CSP directives, like `{ 'img-src': ["'self'", 'data:'] }`.
+ */
+export type Csp = Record<string, string[]>
+
+/**
+ * Headers for each path pattern.
+ */
+export type HeaderRules = Record<string, Record<string, string>>
+
+export const DEFAULT_CSP:Csp = {
+    'default-src': ["'self'"],
+    'script-src': ["'self'"],
+    'style-src': ["'self'"],
+    'img-src': ["'self'", 'data:'],
+    'font-src': ["'self'"],
+    // the API is on this site, at `/api`
+    'connect-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'form-action': ["'self'"],
+    'frame-ancestors': ["'none'"],
+    'upgrade-insecure-requests': []
+}
+
+export const DEFAULT_HEADERS:Record<string, string> = {
+    'Referrer-Policy': 'strict-origin-when-cross-origin',
+    'Permissions-Policy': 'camera=(), microphone=(), geolocation=(), ' +
+        'payment=(), usb=()',
+    'X-Content-Type-Options': 'nosniff',
+    'X-Frame-Options': 'DENY',
+    'Cross-Origin-Opener-Policy': 'same-origin',
+    'Strict-Transport-Security': 'max-age=31536000'
+}
+
+export interface HeadersOptions {
+    /**
+     * Added to the default directives. For example, to use images from
+     * a CDN, `{ 'img-src': ['https://images.example.com'] }`.
+     */
+    csp?:Csp;
+    /**
+     * Headers for every path. These replace the defaults with the
+     * same name.
+     */
+    headers?:Record<string, string>;
+    /**
+     * Headers for other paths, like `{ '/fonts/*': { ... } }`.
+     */
+    rules?:HeaderRules;
+    /**
+     * If `false`, the default, every response has `X-Robots-Tag: noindex`,
+     * so search engines skip this deploy. Set it `true` in production.
+     */
+    indexable?:boolean;
+}
+
+/**
+ * The contents of inline `<script>` elements. Scripts with a `src`, and
+ * data blocks like `application/json`, are not inline scripts.
+ */
+export function inlineScripts (html:string):string[] {
+    const scripts:string[] = []
+    for (const [, attrs, content] of html.matchAll(
+        /<script\b([^>]*)>([\s\S]*?)<\/script>/gi
+    )) {
+        if (/\ssrc\s*=/i.test(attrs)) continue
+        const type = attrs.match(/\stype\s*=\s*["']?([^"'\s>]+)/i)?.[1]
+        if (type && !/^(module|(text|application)\/javascript)$/i.test(type)) {
+            continue
+        }
+        if (content.trim()) scripts.push(content)
+    }
+
+    return scripts
+}
+
+/**
+ * A CSP hash source, like `'sha256-...'`.
+ */
+export async function hashSource (script:string):Promise<string> {
+    const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(script)
+    )
+    let str = ''
+    new Uint8Array(digest).forEach(b => { str += String.fromCharCode(b) })
+    return `'sha256-${btoa(str)}'`
+}
+
+export function cspString (csp:Csp):string {
+    return Object.entries(csp).map(([directive, sources]) => {
+        return [directive, ...sources].join(' ')
+    }).join('; ')
+}
+
+/**
+ * Make the contents of a `_headers` file.
+ */
+export function renderHeaders (rules:HeaderRules):string {
+    return Object.entries(rules).map(([path, headers]) => {
+        return [
+            path,
+            ...Object.entries(headers).map(([k, v]) => `    ${k}: ${v}`)
+        ].join('\n')
+    }).join('\n\n') + '\n'
+}
+
+/**
+ * The header rules for some built HTML pages.
+ */
+export async function headerRules (
+    pages:string[],
+    opts:HeadersOptions = {}
+):Promise<HeaderRules> {
+    const hashes = await Promise.all(pages.flatMap(inlineScripts).map(hashSource))
+    const csp:Csp = { ...DEFAULT_CSP }
+    for (const [directive, sources] of Object.entries(opts.csp || {})) {
+        csp[directive] = [...(csp[directive] || []), ...sources]
+    }
+    csp['script-src'] = Array.from(new Set([
+        ...(csp['script-src'] || []),
+        ...hashes
+    ]))
+
+    return {
+        '/*': {
+            ...DEFAULT_HEADERS,
+            ...(opts.indexable ? {} : { 'X-Robots-Tag': 'noindex' }),
+            ...opts.headers,
+            'Content-Security-Policy': cspString(csp)
+        },
+        // file names in `assets` have a hash of the content
+        '/assets/*': {
+            'Cache-Control': 'public, max-age=31536000, immutable'
+        },
+        ...opts.rules
+    }
+}
+
+/**
+ * A vite plugin that writes `_headers` to the build directory.
+ */
+export function securityHeaders (opts:HeadersOptions = {}):Plugin {
+    return {
+        name: 'security-headers',
+        apply: 'build',
+        enforce: 'post',
+        async generateBundle (_options, bundle) {
+            const pages = Object.values(bundle).flatMap(file => {
+                if (file.type !== 'asset' || !file.fileName.endsWith('.html')) {
+                    return []
+                }
+                return [String(file.source)]
+            })
+
+            this.emitFile({
+                type: 'asset',
+                fileName: '_headers',
+                source: '# generated by build/headers.ts\n' +
+                    renderHeaders(await headerRules(pages, opts))
+            })
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { escape } from '../shared/escape.js'
+
+/**
+ * Put prerendered pages in the `index.html` template.
+ */
+
+export interface Page {
+    path:string;
+    /**
+     * The rendered app.
+     */
+    html:string;
+    /**
+     * Replaces the `<title>` in the template.
+     */
+    head:string;
+}
+
+/**
+ * The file for a path, relative to the build directory. This is
+ * `contact.html`, not `contact/index.html`, so Netlify serves it at
+ * `/contact` without redirecting to `/contact/`.
+ */
+export function pageFile (path:string):string {
+    if (path === '/') return 'index.html'
+    return path.replace(/^\//, '').replace(/\/$/, '') + '.html'
+}
+
+/**
+ * The URL path for a file in the build directory. This is the opposite of
+ * `pageFile` for HTML, so `contact.html` is `/contact`.
+ */
+export function fileUrl (fileName:string):string {
+    if (fileName === 'index.html') return '/'
+    return '/' + fileName.replace(/(\/index)?\.html$/, '')
+}
+
+/**
+ * Put a page in the template, in `<div id="root">`, and its head in place
+ * of the `<title>`. The root gets the path as `data-path`, so the client
+ * knows which route the HTML is for.
+ */
+export function renderPage (template:string, page:Page):string {
+    if (!/<div id="root"><\/div>/.test(template)) {
+        throw new Error('The template needs an empty <div id="root">')
+    }
+
+    // a function, so a `$` in the page is not a replacement pattern
+    return renderShell(template, page.head)
+        .replace('<div id="root"></div>', () => {
+            return `<div id="root" data-path="${escape(page.path)}">` +
+                page.html + '</div>'
+        })
+}
+
+/**
+ * The empty page, for routes that are not prerendered, with the default
+ * head in place of the `<title>`.
+ */
+export function renderShell (template:string, head:string):string {
+    return template.replace(/([ \t]*)<title>[^<]*<\/title>/, (_, indent:string) => {
+        return head.split('\n').map(line => indent + line).join('\n')
+    })
+}
@@ -0,0 +1,127 @@
+/**
+ * The web app manifest, so the app can be installed, and the tags for it
+ * in `index.html`. See https://developer.mozilla.org/en-US/docs/Web/Manifest
+ */
+
+export interface ManifestOptions {
+    name:string;
+    shortName?:string;
+    description?:string;
+    /**
+     * The color of the browser UI around the app.
+     */
+    themeColor:string;
+    /**
+     * The color of the splash screen, and the padding of the
+     * maskable icon.
+     */
+    backgroundColor:string;
+    display?:'fullscreen'|'standalone'|'minimal-ui'|'browser';
+    /**
+     * Default is `/`.
+     */
+    startUrl?:string;
+    /**
+     * The source image for every icon, relative to the project root. A
+     * square SVG, or a PNG that is at least 512 pixels wide.
+     */
+    icon:string;
+    /**
+     * Icon sizes for the manifest. Default is 192 and 512.
+     */
+    iconSizes?:number[];
+}
+
+/**
+ * A link in the main navigation, which is a shortcut in the manifest.
+ */
+export interface Shortcut {
+    href:string;
+    text:string;
+}
+
+/**
+ * Icon sizes for the favicon and the iOS home screen.
+ */
+export const FAVICON_SIZE = 32
+export const TOUCH_ICON_SIZE = 180
+export const MASKABLE_SIZE = 512
+
+export const MANIFEST_FILE = 'manifest.webmanifest'
+
+export function iconFile (size:number, maskable = false):string {
+    return `icons/${maskable ? 'maskable' : 'icon'}-${size}.png`
+}
+
+/**
+ * Every icon to make, except the maskable one.
+ */
+export function iconSizes (opts:ManifestOptions):number[] {
+    return Array.from(new Set([
+        FAVICON_SIZE,
+        TOUCH_ICON_SIZE,
+        ...(opts.iconSizes || [192, 512])
+    ])).sort((a, b) => a - b)
+}
+
+export function createManifest (
+    opts:ManifestOptions,
+    shortcuts:Shortcut[] = []
+):Record<string, unknown> {
+    const startUrl = opts.startUrl || '/'
+
+    return {
+        name: opts.name,
+        short_name: opts.shortName || opts.name,
+        description: opts.description,
+        start_url: startUrl,
+        scope: '/',
+        display: opts.display || 'standalone',
+        theme_color: opts.themeColor,
+        background_color: opts.backgroundColor,
+        icons: [
+            ...(opts.iconSizes || [192, 512]).map(size => ({
+                src: '/' + iconFile(size),
+                sizes: `${size}x${size}`,
+                type: 'image/png',
+                purpose: 'any'
+            })),
+            {
+                src: '/' + iconFile(MASKABLE_SIZE, true),
+                sizes: `${MASKABLE_SIZE}x${MASKABLE_SIZE}`,
+                type: 'image/png',
+                purpose: 'maskable'
+            }
+        ],
+        // the start page is already the app
+        shortcuts: shortcuts
+            .filter(link => link.href !== startUrl)
+            .map(link => ({ name: link.text, url: link.href }))
+    }
+}
+
+/**
+ * The `<link>` and `<meta>` tags for `index.html`.
+ */
+export function manifestTags (opts:ManifestOptions):{
+    tag:string;
+    attrs:Record<string, string>;
+}[] {
+    return [
+        { tag: 'link', attrs: { rel: 'manifest', href: '/' + MANIFEST_FILE } },
+        { tag: 'meta', attrs: { name: 'theme-color', content: opts.themeColor } },
+        {
+            tag: 'link',
+            attrs: {
+                rel: 'icon',
+                type: 'image/png',
+                sizes: `${FAVICON_SIZE}x${FAVICON_SIZE}`,
+                href: '/' + iconFile(FAVICON_SIZE)
+            }
+        },
+        {
+            tag: 'link',
+            attrs: { rel: 'apple-touch-icon', href: '/' + iconFile(TOUCH_ICON_SIZE) }
+        }
+    ]
+}
@@ -0,0 +1,138 @@
+import { type Plugin, type ResolvedConfig, createServer } from 'vite'
+import { pageFile, renderPage, renderShell } from './html.js'
+import { type SitemapUrl, renderRobots, renderSitemap } from './sitemap.js'
+import type { Shortcut } from './manifest.js'
+
+/**
+ * Render the static routes to HTML at build time, so the content is there
+ * before any JS runs. The client hydrates the HTML instead of rendering
+ * it again.
+ *
+ * The routes are rendered in node, by a Vite server, from the module
+ * `entry`. It exports `paths`, and a `prerender(path, { origin })` function
+ * that returns `{ html, head }`. See `src/prerender.ts`.
+ *
+ * `index.html` is the home page. Every other route, including the ones that
+ * are not prerendered, gets the empty page, as `app.html`, with the default
+ * head from the entry's `shellHead`. See the redirects in `netlify.toml`.
+ *
+ * The entry also exports the `sitemap` URLs from the route table. This
+ * writes `robots.txt`, and `sitemap.xml` if the site is `indexable`. The
+ * `nav` links are kept in the plugin `api`, for the web app manifest.
+ */
+
+export interface PrerenderOptions {
+    /**
+     * The module that renders routes. Default is `/src/prerender.ts`.
+     */
+    entry?:string;
+    /**
+     * The file name for the empty page. Default is `app.html`.
+     */
+    shell?:string;
+    /**
+     * The site origin, for canonical URLs. Default is the `URL` that
+     * Netlify sets in a build.
+     */
+    origin?:string;
+    /**
+     * Let search engines crawl the site. Default is `false`, so only
+     * production should set this.
+     */
+    indexable?:boolean;
+}
+
+/**
+ * For other plugins, after this plugin's `generateBundle`.
+ */
+export interface PrerenderApi {
+    nav:Shortcut[];
+}
+
+interface Entry {
+    paths:string[];
+    sitemap:SitemapUrl[];
+    nav:Shortcut[];
+    shellHead:string;
+    prerender:(path:string, opts:{
+        origin?:string
+    })=>Promise<{ html:string; head:string }>;
+}
+
+export function prerender ({
+    entry = '/src/prerender.ts',
+    shell = 'app.html',
+    origin = process.env.URL,
+    indexable = false
+}:PrerenderOptions = {}):Plugin {
+    let config:ResolvedConfig
+    const api:PrerenderApi = { nav: [] }
+
+    return {
+        name: 'prerender',
+        apply: 'build',
+        enforce: 'post',
+        api,
+
+        configResolved (resolved) {
+            config = resolved
+        },
+
+        async generateBundle (_options, bundle) {
+            const index = bundle['index.html']
+            if (!index || index.type !== 'asset') return
+            const template = String(index.source)
+
+            // the same config, but the plugins for `serve`
+            const server = await createServer({
+                configFile: config.configFile,
+                root: config.root,
+                mode: config.mode,
+                logLevel: 'error',
+                appType: 'custom',
+                server: { middlewareMode: true, hmr: false, ws: false }
+            })
+
+            let mod:Entry
+            try {
+                mod = await server.ssrLoadModule(entry) as Entry
+                api.nav = mod.nav
+                for (const path of mod.paths) {
+                    const page = await mod.prerender(path, { origin })
+                    const source = renderPage(template, { ...page, path })
+                    const fileName = pageFile(path)
+                    if (fileName === 'index.html') {
+                        index.source = source
+                        continue
+                    }
+                    this.emitFile({ type: 'asset', fileName, source })
+                }
+            } finally {
+                await server.close()
+            }
+
+            this.emitFile({
+                type: 'asset',
+                fileName: shell,
+                source: renderShell(template, mod.shellHead)
+            })
+
+            // the sitemap needs absolute URLs
+            const sitemap = indexable && origin ?
+                new URL('/sitemap.xml', origin).href :
+                undefined
+            if (sitemap) {
+                this.emitFile({
+                    type: 'asset',
+                    fileName: 'sitemap.xml',
+                    source: renderSitemap(mod.sitemap, origin!)
+                })
+            }
+            this.emitFile({
+                type: 'asset',
+                fileName: 'robots.txt',
+                source: renderRobots({ indexable, sitemap })
+            })
+        }
+    }
+}
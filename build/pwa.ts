@@ -0,0 +1,89 @@
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import sharp from 'sharp'
+import type { Plugin, ResolvedConfig } from 'vite'
+import type { PrerenderApi } from './prerender.js'
+import {
+    MANIFEST_FILE,
+    MASKABLE_SIZE,
+    type ManifestOptions,
+    createManifest,
+    iconFile,
+    iconSizes,
+    manifestTags
+} from './manifest.js'
+
+/**
+ * Make the app installable. This writes `manifest.webmanifest`, resizes
+ * one source image to every icon, and adds the tags to `index.html`, so
+ * the prerendered pages have them too.
+ *
+ * The shortcuts are the links in the main navigation, from the
+ * `prerender` plugin, so put this after it. See `build/manifest.ts`.
+ */
+export function webManifest (opts:ManifestOptions):Plugin {
+    let config:ResolvedConfig
+
+    return {
+        name: 'web-manifest',
+        apply: 'build',
+        enforce: 'post',
+
+        configResolved (resolved) {
+            config = resolved
+        },
+
+        transformIndexHtml () {
+            return manifestTags(opts).map(({ tag, attrs }) => ({
+                tag,
+                attrs,
+                injectTo: 'head' as const
+            }))
+        },
+
+        async generateBundle () {
+            const source = await readFile(resolve(config.root, opts.icon))
+
+            for (const size of iconSizes(opts)) {
+                this.emitFile({
+                    type: 'asset',
+                    fileName: iconFile(size),
+                    source: await sharp(source, { density: 300 })
+                        .resize(size, size)
+                        .png()
+                        .toBuffer()
+                })
+            }
+
+            // The safe zone of a maskable icon is a circle in the middle
+            // 80%, so the rest is the background color.
+            const inner = Math.round(MASKABLE_SIZE * 0.8)
+            const padding = (MASKABLE_SIZE - inner) / 2
+            this.emitFile({
+                type: 'asset',
+                fileName: iconFile(MASKABLE_SIZE, true),
+                source: await sharp(source, { density: 300 })
+                    .resize(inner, inner)
+                    .extend({
+                        top: padding,
+                        bottom: padding,
+                        left: padding,
+                        right: padding,
+                        background: opts.backgroundColor
+                    })
+                    .png()
+                    .toBuffer()
+            })
+
+            const prerender = config.plugins.find(plugin => {
+                return plugin.name === 'prerender'
+            })
+            const nav = (prerender?.api as PrerenderApi|undefined)?.nav || []
+            this.emitFile({
+                type: 'asset',
+                fileName: MANIFEST_FILE,
+                source: JSON.stringify(createManifest(opts, nav), null, 4)
+            })
+        }
+    }
+}
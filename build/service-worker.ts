@@ -0,0 +1,112 @@
+import { createHash } from 'node:crypto'
+import { readdir } from 'node:fs/promises'
+import { join, relative, resolve, sep } from 'node:path'
+import { build } from 'esbuild'
+import type { Plugin, ResolvedConfig } from 'vite'
+import type { CacheRule } from '../src/caching.js'
+import { fileUrl } from './html.js'
+
+/**
+ * Make the service worker, with a list of every file in the build, so the
+ * app works offline. The list is made from the Vite bundle, after the
+ * pages are prerendered, plus the files in the public directory.
+ *
+ * The version is a hash of the files, so each deploy with a change is a new
+ * worker, and the page can prompt to reload. See `src/service-worker.ts`.
+ */
+
+export interface ServiceWorkerOptions {
+    /**
+     * The worker source. Default is `src/service-worker.ts`.
+     */
+    src?:string;
+    /**
+     * Default is `sw.js`.
+     */
+    fileName?:string;
+    /**
+     * The page for any route that is not prerendered, like the `/*`
+     * redirect. Default is `app.html`.
+     */
+    shell?:string;
+    /**
+     * How to cache requests that are not files in the build, like `/api/*`.
+     * The first rule that matches is used. Other requests use the network.
+     */
+    runtimeCaching?:CacheRule[];
+}
+
+/**
+ * Files that are not for the browser, or that change on their own.
+ */
+const SKIP = /(\.map|^_headers|^_redirects|^robots\.txt|^sitemap\.xml)$/
+
+export function serviceWorker ({
+    src = 'src/service-worker.ts',
+    fileName = 'sw.js',
+    shell = 'app.html',
+    runtimeCaching = []
+}:ServiceWorkerOptions = {}):Plugin {
+    let config:ResolvedConfig
+
+    return {
+        name: 'service-worker',
+        apply: 'build',
+        enforce: 'post',
+
+        configResolved (resolved) {
+            config = resolved
+        },
+
+        async generateBundle (_options, bundle) {
+            const publicFiles = config.publicDir ?
+                await listFiles(config.publicDir) :
+                []
+            const files = [...Object.keys(bundle), ...publicFiles]
+                .filter(name => !SKIP.test(name) && name !== fileName)
+                .sort()
+
+            // HTML files are not hashed, so hash what is in them
+            const hash = createHash('sha256').update(files.join('\n'))
+            Object.values(bundle).forEach(file => {
+                if (file.type === 'asset' && file.fileName.endsWith('.html')) {
+                    hash.update(file.source)
+                }
+            })
+
+            const result = await build({
+                entryPoints: [resolve(config.root, src)],
+                bundle: true,
+                write: false,
+                format: 'iife',
+                target: 'es2020',
+                minify: !!config.build.minify,
+                define: {
+                    __PRECACHE__: JSON.stringify(files.map(fileUrl)),
+                    __VERSION__: JSON.stringify(hash.digest('hex').slice(0, 12)),
+                    __SHELL__: JSON.stringify(fileUrl(shell)),
+                    __RUNTIME__: JSON.stringify(runtimeCaching)
+                }
+            })
+
+            this.emitFile({
+                type: 'asset',
+                fileName,
+                source: result.outputFiles[0].text
+            })
+        }
+    }
+}
+
+/**
+ * Every file in a directory, as paths relative to it.
+ */
+async function listFiles (dir:string):Promise<string[]> {
+    const entries = await readdir(dir, { recursive: true, withFileTypes: true })
+        .catch(() => [])
+
+    return entries
+        .filter(entry => entry.isFile())
+        .map(entry => relative(dir, join(entry.parentPath, entry.name)))
+        .map(file => file.split(sep).join('/'))
+}
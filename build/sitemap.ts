@@ -0,0 +1,53 @@
+import { escape } from '../shared/escape.js'
+
+/**
+ * `sitemap.xml` and `robots.txt`. See https://www.sitemaps.org/protocol.html
+ * and https://www.robotstxt.org/
+ */
+
+export interface SitemapUrl {
+    path:string;
+    lastmod?:string;
+    priority?:number;
+    changefreq?:string;
+}
+
+/**
+ * A sitemap for some paths. `origin` is the site URL, like
+ * `https://example.com`.
+ */
+export function renderSitemap (urls:SitemapUrl[], origin:string):string {
+    const entries = urls.map(({ path, lastmod, priority, changefreq }) => {
+        return ['  <url>',
+            `    <loc>${escape(new URL(path, origin).href)}</loc>`,
+            lastmod && `    <lastmod>${escape(lastmod)}</lastmod>`,
+            changefreq && `    <changefreq>${escape(changefreq)}</changefreq>`,
+            priority !== undefined && `    <priority>${priority}</priority>`,
+            '  </url>'
+        ].filter(Boolean).join('\n')
+    })
+
+    return ['<?xml version="1.0" encoding="UTF-8"?>',
+        '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+        ...entries,
+        '</urlset>',
+        ''
+    ].join('\n')
+}
+
+/**
+ * Let search engines crawl the site, or not. A site that is not indexable
+ * disallows everything, like a deploy preview.
+ *
+ * @param sitemap The URL of the sitemap.
+ */
+export function renderRobots ({ indexable, sitemap }:{
+    indexable:boolean;
+    sitemap?:string;
+}):string {
+    return ['User-agent: *',
+        indexable ? 'Allow: /' : 'Disallow: /',
+        ...(indexable && sitemap ? ['', 'Sitemap: ' + sitemap] : []),
+        ''
+    ].join('\n')
+}
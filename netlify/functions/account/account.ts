@@ -0,0 +1,15 @@
+import type { AccountResponse } from '../../../shared/api.js'
+import { withAuth } from '../../lib/auth.js'
+import { handler } from '../../lib/http.js'
+
+/**
+ * An example of a function that needs a logged in user.
+ */
+export default handler({
+    GET: withAuth(async (_req, _context, user) => {
+        return Response.json({
+            user,
+            since: new Date().toISOString()
+        } satisfies AccountResponse)
+    })
+}, { cache: 'none' })
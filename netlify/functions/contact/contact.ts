@@ -0,0 +1,37 @@
+import {
+    type ContactRequest,
+    type ContactResponse,
+    validateContact
+} from '../../../shared/contact.js'
+import { handler, withBody } from '../../lib/http.js'
+import { rateLimit, tokenBucket } from '../../lib/rate-limit.js'
+import { rateLimitStore } from '../../lib/rate-limit-store.js'
+import { repository } from '../../lib/repository-store.js'
+
+/**
+ * Messages are saved in the `contact` store, not logged, because they have
+ * the sender's email address. Keys sort by the time the message was sent.
+ * They are kept until they are deleted; see "Contact messages" in the
+ * README. This is where you would also send an email.
+ */
+function newId ():string {
+    return Date.now().toString(36).padStart(9, '0') + '-' +
+        crypto.randomUUID().slice(0, 8)
+}
+
+// a few messages at once, then one a minute
+const limit = rateLimit({
+    algorithm: tokenBucket({ limit: 1, window: 60_000, burst: 5 }),
+    store: rateLimitStore(),
+    prefix: 'contact:'
+})
+
+export default handler({
+    POST: limit(withBody(validateContact, async (_req, _context, body) => {
+        // in the request, where the Blobs context is set
+        const messages = repository<ContactRequest>('contact')
+        await messages.put(newId(), body)
+
+        return Response.json({ ok: true } satisfies ContactResponse)
+    }, { limit: 10_000 }))
+})
@@ -0,0 +1,36 @@
+import type { SharedCount } from '../../../shared/counter.js'
+import { HttpError, handler } from '../../lib/http.js'
+import { ConflictError } from '../../lib/repository.js'
+import { COUNTER_KEY, counter } from '../../lib/counter.js'
+import { rateLimit, tokenBucket } from '../../lib/rate-limit.js'
+import { rateLimitStore } from '../../lib/rate-limit-store.js'
+
+const limit = rateLimit({
+    algorithm: tokenBucket({ limit: 5, window: 1000, burst: 10 }),
+    store: rateLimitStore(),
+    prefix: 'counter:'
+})
+
+/**
+ * Add one to the shared counter. Clients hear about it from the
+ * `events` function.
+ */
+export default handler({
+    POST: limit(async () => {
+        // someone else may add one at the same time
+        for (let i = 0; i < 5; i++) {
+            const current = await counter.get(COUNTER_KEY)
+            const next:SharedCount = { count: (current?.value.count ?? 0) + 1 }
+            try {
+                await counter.put(COUNTER_KEY, next, current ?
+                    { etag: current.etag } :
+                    { onlyIfNew: true })
+                return Response.json(next satisfies SharedCount)
+            } catch (err) {
+                if (!(err instanceof ConflictError)) throw err
+            }
+        }
+
+        throw new HttpError(503, 'The counter is busy. Try again.')
+    })
+})
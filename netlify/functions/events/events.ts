@@ -0,0 +1,31 @@
+import { handler } from '../../lib/http.js'
+import { eventStream, sleep } from '../../lib/sse.js'
+import { COUNTER_KEY, counter } from '../../lib/counter.js'
+
+/**
+ * Server-sent events. This sends a `count` event when the shared counter
+ * changes. The event ID is the version of the counter, so a client that
+ * reconnects only gets an event if it missed a change.
+ *
+ * The counter is checked once a second, for each client.
+ */
+export default handler({
+    GET: async (req) => eventStream(req, async (send, signal) => {
+        let last = req.headers.get('Last-Event-ID')
+
+        while (!signal.aborted) {
+            const entry = await counter.get(COUNTER_KEY)
+            const version = entry?.etag || '0'
+            if (version !== last) {
+                send({
+                    event: 'count',
+                    id: version,
+                    data: { count: entry?.value.count ?? 0 }
+                })
+                last = version
+            }
+
+            await sleep(1000, signal)
+        }
+    })
+}, { cache: 'none' })
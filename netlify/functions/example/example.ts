@@ -1,17 +1,9 @@
-// import type { Context, Config } from '@netlify/functions'
-import type { Context } from '@netlify/functions'
+import type { ExampleResponse } from '../../../shared/api.js'
+import { handler } from '../../lib/http.js'
 
-export default async (req:Request, context:Context) => {
-    const { param, splat } = context.params
-    if (req.method !== 'GET') {
-        return new Response(null, { status: 405 })
+export default handler({
+    GET: async (_req, context) => {
+        const { param, splat } = context.params
+        return Response.json({ param, splat } satisfies ExampleResponse)
     }
-
-    return Response.json({ param, splat }, {
-        status: 200,
-        headers: {
-            // see https://docs.netlify.com/platform/caching/#durable-directive
-            'Netlify-CDN-Cache-Control': 'public, durable, max-age=60, stale-while-revalidate=120'
-        }
-    })
-}
+}, { cache: 'short' })
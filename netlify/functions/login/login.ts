@@ -0,0 +1,35 @@
+import {
+    type LoginRequest,
+    type LoginResponse,
+    validateLogin
+} from '../../../shared/auth.js'
+import { checkPassword } from '../../lib/users.js'
+import { createSession } from '../../lib/auth.js'
+import { HttpError, handler, parse, readJson } from '../../lib/http.js'
+import { fixedWindow, rateLimit } from '../../lib/rate-limit.js'
+import { rateLimitStore } from '../../lib/rate-limit-store.js'
+
+// slow down password guessing
+const limit = rateLimit({
+    algorithm: fixedWindow({ limit: 10, window: 60_000 }),
+    store: rateLimitStore(),
+    prefix: 'login:'
+})
+
+export default handler({
+    POST: limit(async (req) => {
+        const body = await readJson(req, { limit: 1_000 })
+        const { username } = parse(validateLogin, body)
+
+        // the password is not trimmed
+        const user = await checkPassword(
+            username,
+            (body as LoginRequest).password
+        )
+        if (!user) throw new HttpError(401, 'Wrong username or password')
+
+        return Response.json({ ok: true, user } satisfies LoginResponse, {
+            headers: { 'Set-Cookie': await createSession(req, user) }
+        })
+    })
+})
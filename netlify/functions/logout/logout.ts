@@ -0,0 +1,10 @@
+import { clearSession } from '../../lib/auth.js'
+import { handler } from '../../lib/http.js'
+
+export default handler({
+    POST: async (req) => {
+        return Response.json({ ok: true }, {
+            headers: { 'Set-Cookie': clearSession(req) }
+        })
+    }
+})
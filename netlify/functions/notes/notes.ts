@@ -0,0 +1,107 @@
+import type { User } from '../../../shared/auth.js'
+import {
+    type Note,
+    type NoteResponse,
+    type NotesResponse,
+    validateNote
+} from '../../../shared/notes.js'
+import { withAuth } from '../../lib/auth.js'
+import { HttpError, handler, parse, readJson } from '../../lib/http.js'
+import type { Entry } from '../../lib/repository.js'
+import { repository } from '../../lib/repository-store.js'
+
+/**
+ * An example of storing data. Each user has their own notes, with keys like
+ * `userId/noteId`.
+ *
+ *   - GET /api/notes -- a page of notes; pass `cursor` for the next one
+ *   - GET /api/notes?id=... -- one note
+ *   - POST /api/notes -- make a note
+ *   - PUT /api/notes?id=... -- change a note; send the etag in `If-Match`
+ *   - DELETE /api/notes?id=... -- delete a note
+ */
+const notes = repository<Note>('notes')
+
+function key (user:User, id:string):string {
+    return `${user.id}/${id}`
+}
+
+function noteId (req:Request):string {
+    const id = new URL(req.url).searchParams.get('id')
+    if (!id) throw new HttpError(400, 'Which note? Add an id to the URL.')
+    return id
+}
+
+function toResponse ({ value, etag }:Entry<Note>):NoteResponse {
+    return { note: value, etag }
+}
+
+/**
+ * IDs sort by the time the note was made, so the list is in that order.
+ */
+function newId ():string {
+    return Date.now().toString(36).padStart(9, '0') + '-' +
+        crypto.randomUUID().slice(0, 8)
+}
+
+export default handler({
+    GET: withAuth(async (req, _context, user) => {
+        const query = new URL(req.url).searchParams
+        const id = query.get('id')
+        if (id) {
+            const entry = await notes.get(key(user, id))
+            if (!entry) throw new HttpError(404, 'Note not found')
+            return Response.json(toResponse(entry) satisfies NoteResponse)
+        }
+
+        const page = await notes.list({
+            prefix: user.id + '/',
+            limit: Math.min(Number(query.get('limit')) || 20, 100),
+            cursor: query.get('cursor')
+        })
+
+        return Response.json({
+            notes: page.items.map(toResponse),
+            cursor: page.cursor
+        } satisfies NotesResponse)
+    }),
+
+    POST: withAuth(async (req, _context, user) => {
+        const { text } = parse(validateNote, await readJson(req))
+        const now = new Date().toISOString()
+        const note:Note = { id: newId(), text, created: now, updated: now }
+        const entry = await notes.put(key(user, note.id), note, {
+            onlyIfNew: true
+        })
+
+        return Response.json(toResponse(entry) satisfies NoteResponse, {
+            status: 201
+        })
+    }),
+
+    PUT: withAuth(async (req, _context, user) => {
+        const id = noteId(req)
+        const etag = req.headers.get('If-Match')
+        if (!etag) {
+            throw new HttpError(428, 'Send the etag of the note in If-Match')
+        }
+
+        const { text } = parse(validateNote, await readJson(req))
+        const current = await notes.get(key(user, id))
+        if (!current) throw new HttpError(404, 'Note not found')
+
+        // fails with a 412 if the note changed since the client read it
+        const entry = await notes.put(key(user, id), {
+            ...current.value,
+            text,
+            updated: new Date().toISOString()
+        }, { etag })
+
+        return Response.json(toResponse(entry) satisfies NoteResponse)
+    }),
+
+    DELETE: withAuth(async (req, _context, user) => {
+        await notes.delete(key(user, noteId(req)))
+        return new Response(null, { status: 204 })
+    })
+}, { cache: 'none' })
@@ -0,0 +1,14 @@
+import type { SessionResponse } from '../../../shared/auth.js'
+import { getUser } from '../../lib/auth.js'
+import { handler } from '../../lib/http.js'
+
+/**
+ * Who is logged in. This is `null`, not a 401, if nobody is.
+ */
+export default handler({
+    GET: async (req) => {
+        return Response.json({
+            user: await getUser(req)
+        } satisfies SessionResponse)
+    }
+}, { cache: 'none' })
@@ -0,0 +1,72 @@
+import type { Context } from '@netlify/functions'
+import type { User } from '../../shared/auth.js'
+import * as session from './session.js'
+import { type Handler, HttpError } from './http.js'
+import { type KeyFn, byIp } from './rate-limit.js'
+
+/**
+ * Set `SESSION_SECRET` in the netlify environment. Under `netlify dev` or
+ * `ntl functions:serve`, a local secret is used if it is not set.
+ */
+const LOCAL_SECRET = 'local-development-secret'
+
+export function sessionSecret ():string {
+    const secret = process.env.SESSION_SECRET
+    if (secret) return secret
+    if (process.env.NETLIFY_DEV === 'true') return LOCAL_SECRET
+    throw new Error('SESSION_SECRET is not set')
+}
+
+/**
+ * Log a user in.
+ *
+ * @returns The `Set-Cookie` header.
+ */
+export function createSession (req:Request, user:User):Promise<string> {
+    return session.createSession(req, user, sessionSecret())
+}
+
+/**
+ * Log out.
+ *
+ * @returns The `Set-Cookie` header.
+ */
+export function clearSession (req:Request):string {
+    return session.clearSession(req)
+}
+
+/**
+ * The logged in user, or `null`.
+ */
+export function getUser (req:Request):Promise<User|null> {
+    return session.getUser(req, sessionSecret())
+}
+
+/**
+ * Only let logged in users call a handler. Anyone else gets a 401.
+ *
+ * @example
+ * export default handler({
+ *     GET: withAuth(async (req, context, user) => {
+ *         return Response.json({ hello: user.name })
+ *     })
+ * })
+ */
+export function withAuth (
+    handler:(req:Request, context:Context, user:User)=>Response|Promise<Response>
+):Handler {
+    return async (req, context) => {
+        const user = await getUser(req)
+        if (!user) throw new HttpError(401, 'Log in first')
+        return handler(req, context, user)
+    }
+}
+
+/**
+ * A rate limit key for each logged in user, or each IP address if nobody
+ * is logged in.
+ */
+export const byUser:KeyFn = async (req, context) => {
+    const user = await getUser(req)
+    return user ? 'user:' + user.id : byIp(req, context)
+}
@@ -0,0 +1,9 @@
+import type { SharedCount } from '../../shared/counter.js'
+import { repository } from './repository-store.js'
+
+/**
+ * The shared counter, for the `counter` and `events` functions.
+ */
+export const counter = repository<SharedCount>('counter')
+
+export const COUNTER_KEY = 'count'
@@ -0,0 +1,386 @@
+import type { Context } from '@netlify/functions'
+import type { FieldErrors, Validation } from '../../shared/schema.js'
+import type { ErrorBody } from '../../shared/api.js'
+
+/**
+ * A small framework for netlify functions. A function is a `Handler`, and
+ * a `Middleware` wraps a handler to make a new one.
+ *
+ * @example
+ * export default handler({
+ *     GET: async (req, context) => Response.json({ hello: 'world' }),
+ *     POST: withBody(validateContact, async (req, context, body) => {
+ *         return Response.json({ ok: true })
+ *     })
+ * }, { cache: 'short' })
+ */
+
+export type Handler = (req:Request, context:Context)=>Response|Promise<Response>
+
+export type Middleware = (next:Handler)=>Handler
+
+export type Method = 'GET'|'HEAD'|'POST'|'PUT'|'PATCH'|'DELETE'|'OPTIONS'
+
+export type Routes = Partial<Record<Method, Handler>>
+
+/**
+ * Throw this from a handler to respond with an error. The response is
+ * a JSON `ErrorBody`.
+ */
+export class HttpError<T = Record<string, string>> extends Error {
+    status:number
+    errors?:FieldErrors<T>
+    headers?:Record<string, string>
+
+    constructor (status:number, message:string, opts:{
+        errors?:FieldErrors<T>;
+        headers?:Record<string, string>;
+        cause?:unknown;
+    } = {}) {
+        super(message, { cause: opts.cause })
+        this.name = 'HttpError'
+        this.status = status
+        this.errors = opts.errors
+        this.headers = opts.headers
+    }
+}
+
+/**
+ * Cache headers for successful responses. The CDN cache is cleared by
+ * each deploy, and browsers always check with the CDN.
+ * See https://docs.netlify.com/platform/caching/
+ */
+export const CACHE = {
+    // responses that depend on who is asking
+    none: {
+        'Cache-Control': 'no-store'
+    },
+    short: {
+        'Cache-Control': 'public, max-age=0, must-revalidate',
+        'Netlify-CDN-Cache-Control': 'public, durable, max-age=60, ' +
+            'stale-while-revalidate=120'
+    },
+    long: {
+        'Cache-Control': 'public, max-age=0, must-revalidate',
+        'Netlify-CDN-Cache-Control': 'public, durable, max-age=86400, ' +
+            'stale-while-revalidate=604800'
+    }
+} satisfies Record<string, Record<string, string>>
+
+export type CachePreset = keyof typeof CACHE
+
+export interface CorsOptions {
+    /**
+     * Origins that can call the function from another site, like
+     * `https://example.com`. `*` means any origin, without credentials.
+     * Default is `allowedOrigins()`.
+     */
+    origins?:string[];
+    headers?:string[];
+    /**
+     * Allow cookies. This is ignored if any origin is allowed.
+     */
+    credentials?:boolean;
+    /**
+     * How long a preflight response can be cached, in seconds.
+     */
+    maxAge?:number;
+}
+
+export interface HandlerOptions {
+    /**
+     * CORS for other sites. Default is `true`, which allows the origins
+     * from `allowedOrigins()`. `false` means no CORS headers.
+     */
+    cors?:boolean|CorsOptions;
+    /**
+     * Cache headers for successful `GET` responses.
+     */
+    cache?:CachePreset;
+    /**
+     * More middleware. The first one is the outermost.
+     */
+    use?:Middleware[];
+}
+
+/**
+ * Make a function from a handler for each method. Every response has an
+ * `X-Request-Id` header, and any error becomes a JSON error response.
+ */
+export function handler (routes:Routes, opts:HandlerOptions = {}):Handler {
+    const { cors = true } = opts
+
+    return compose(
+        requestId(),
+        ...(cors ? [withCors(cors === true ? {} : cors)] : []),
+        errors(),
+        ...(opts.use || []),
+        ...(opts.cache ? [cache(opts.cache)] : [])
+    )(methods(routes))
+}
+
+/**
+ * Combine middleware into one. The first one is the outermost.
+ */
+export function compose (...middleware:Middleware[]):Middleware {
+    return (next) => middleware.reduceRight((h, mw) => mw(h), next)
+}
+
+/**
+ * Call the handler for the request method. Other methods get a 405, with an
+ * `Allow` header. A `GET` handler also answers `HEAD`, and `OPTIONS`
+ * is answered with the allowed methods.
+ */
+export function methods (routes:Routes):Handler {
+    const allowed = Object.keys(routes) as Method[]
+    if (routes.GET && !routes.HEAD) allowed.push('HEAD')
+    if (!routes.OPTIONS) allowed.push('OPTIONS')
+    const allow = allowed.join(', ')
+
+    return async (req, context) => {
+        const method = req.method.toUpperCase() as Method
+        const route = routes[method]
+        if (route) return route(req, context)
+
+        if (method === 'HEAD' && routes.GET) {
+            const res = await routes.GET(req, context)
+            return new Response(null, res)
+        }
+
+        if (method === 'OPTIONS') {
+            return new Response(null, { status: 204, headers: { Allow: allow } })
+        }
+
+        throw new HttpError(405, 'Method not allowed', {
+            headers: { Allow: allow }
+        })
+    }
+}
+
+/**
+ * Use the request ID from netlify, or make one, and add it to the response
+ * as `X-Request-Id`. It is also in `context.requestId`.
+ */
+export function requestId ():Middleware {
+    return (next) => async (req, context) => {
+        const id = context.requestId || crypto.randomUUID()
+        context.requestId = id
+        return setHeaders(await next(req, context), { 'X-Request-Id': id })
+    }
+}
+
+/**
+ * Respond to errors with an `ErrorBody`. An `HttpError` is sent to the
+ * client; anything else is logged and sent as a 500.
+ */
+export function errors ():Middleware {
+    return (next) => async (req, context) => {
+        try {
+            return await next(req, context)
+        } catch (err) {
+            if (err instanceof HttpError && err.status < 500) {
+                return errorResponse(err, context.requestId)
+            }
+
+            console.error('request failed', context.requestId, err)
+            return errorResponse(err instanceof HttpError ?
+                err :
+                new HttpError(500, 'Something went wrong', { cause: err }),
+            context.requestId)
+        }
+    }
+}
+
+export function errorResponse (err:HttpError, requestId?:string):Response {
+    return Response.json({
+        ok: false,
+        error: err.message,
+        errors: err.errors,
+        requestId
+    } satisfies ErrorBody, {
+        status: err.status,
+        headers: { 'Cache-Control': 'no-store', ...err.headers }
+    })
+}
+
+/**
+ * The origins in the `ALLOWED_ORIGINS` environment variable, separated by
+ * commas. Set it for each deploy context in `netlify.toml`, or in the
+ * netlify UI. Pages on this site don't need to be listed.
+ */
+export function allowedOrigins ():string[] {
+    // `Netlify` only exists in the functions runtime
+    const env = typeof Netlify === 'undefined' ?
+        undefined :
+        Netlify.env.get('ALLOWED_ORIGINS')
+
+    return (env || '').split(',').map(o => o.trim()).filter(Boolean)
+}
+
+/**
+ * Add CORS headers for allowed origins. Other origins get no CORS headers,
+ * so the browser won't let them read the response, and their preflight
+ * requests get a 403. A preflight request is answered with the methods
+ * from the `Allow` header of the `OPTIONS` response.
+ */
+export function withCors ({
+    origins,
+    headers = ['Content-Type', 'Authorization'],
+    credentials = false,
+    maxAge = 86400
+}:CorsOptions = {}):Middleware {
+    return (next) => async (req, context) => {
+        const allowList = origins || allowedOrigins()
+        const any = allowList.includes('*')
+        const origin = req.headers.get('Origin')
+        const allowed = !!origin && (any || allowList.includes(origin))
+        const isPreflight = req.method === 'OPTIONS' &&
+            req.headers.has('Access-Control-Request-Method')
+
+        if (isPreflight && !allowed) {
+            return errorResponse(
+                new HttpError(403, 'Origin not allowed'),
+                context.requestId
+            )
+        }
+
+        const res = await next(req, context)
+        // the response depends on the origin, so caches need to know
+        const vary:Record<string, string> = (any || !allowList.length) ?
+            {} :
+            { Vary: 'Origin', 'Netlify-Vary': 'header=Origin' }
+        if (!allowed) return setHeaders(res, vary)
+
+        const cors:Record<string, string> = {
+            ...vary,
+            'Access-Control-Allow-Origin': any ? '*' : origin
+        }
+        if (credentials && !any) {
+            cors['Access-Control-Allow-Credentials'] = 'true'
+        }
+        if (isPreflight) {
+            cors['Access-Control-Allow-Methods'] = res.headers.get('Allow') || ''
+            cors['Access-Control-Allow-Headers'] = headers.join(', ')
+            cors['Access-Control-Max-Age'] = String(maxAge)
+        }
+
+        return setHeaders(res, cors)
+    }
+}
+
+/**
+ * Add cache headers to successful `GET` and `HEAD` responses.
+ */
+export function cache (preset:CachePreset):Middleware {
+    return (next) => async (req, context) => {
+        const res = await next(req, context)
+        if (!res.ok || (req.method !== 'GET' && req.method !== 'HEAD')) {
+            return res
+        }
+        return setHeaders(res, CACHE[preset])
+    }
+}
+
+/**
+ * Read a JSON request body.
+ *
+ * @param limit The largest body to read, in bytes. Default is 100 KB.
+ * @throws {HttpError} 415 if it is not JSON, 413 if it is too big, or 400
+ *   if it can't be parsed.
+ */
+export async function readJson (
+    req:Request,
+    { limit = 100_000 }:{ limit?:number } = {}
+):Promise<unknown> {
+    const type = req.headers.get('Content-Type') || ''
+    if (!type.includes('application/json')) {
+        throw new HttpError(415, 'Expected a JSON body')
+    }
+
+    const tooBig = new HttpError(413, 'The request body is too big')
+    if (Number(req.headers.get('Content-Length')) > limit) throw tooBig
+
+    // the content-length header is optional, so count the bytes too
+    const chunks:Uint8Array[] = []
+    let size = 0
+    if (req.body) {
+        const reader = req.body.getReader()
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+            size += value.byteLength
+            if (size > limit) {
+                await reader.cancel()
+                throw tooBig
+            }
+            chunks.push(value)
+        }
+    }
+
+    const bytes = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        bytes.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+
+    try {
+        return JSON.parse(new TextDecoder().decode(bytes))
+    } catch (err) {
+        throw new HttpError(400, 'Invalid JSON', { cause: err })
+    }
+}
+
+/**
+ * Validate some data, with a validator from `shared/`.
+ *
+ * @throws {HttpError} 422, with the field errors.
+ */
+export function parse<T> (
+    validate:(data:unknown)=>Validation<T>,
+    data:unknown
+):T {
+    const result = validate(data)
+    if (!result.ok) {
+        throw new HttpError<T>(422, 'Invalid request', {
+            errors: result.errors
+        })
+    }
+    return result.value
+}
+
+/**
+ * A handler for a JSON request body. The body is validated before the
+ * handler is called.
+ *
+ * @example
+ * POST: withBody(validateContact, async (req, context, body) => {
+ *     await send(body)
+ *     return Response.json({ ok: true })
+ * })
+ */
+export function withBody<T> (
+    validate:(data:unknown)=>Validation<T>,
+    fn:(req:Request, context:Context, body:T)=>Response|Promise<Response>,
+    opts?:{ limit?:number }
+):Handler {
+    return async (req, context) => {
+        const body = parse(validate, await readJson(req, opts))
+        return fn(req, context, body)
+    }
+}
+
+/**
+ * Add headers to a response. The headers of a response from `fetch` can't
+ * be changed, so this makes a copy.
+ */
+export function setHeaders (
+    res:Response,
+    headers:Record<string, string>
+):Response {
+    const copy = new Response(res.body, res)
+    for (const [key, value] of Object.entries(headers)) {
+        copy.headers.set(key, value)
+    }
+    return copy
+}
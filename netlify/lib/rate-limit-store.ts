@@ -0,0 +1,53 @@
+import { getStore } from '@netlify/blobs'
+import { type RateLimitStore, memoryStore } from './rate-limit.js'
+
+interface Entry {
+    value:unknown;
+    expires:number;
+}
+
+/**
+ * Keep the rate limit state in Netlify Blobs, so every function instance
+ * sees the same counts. Writes are conditional, so two requests at the same
+ * time can't both use the last request in the limit.
+ *
+ * Old entries are ignored, not deleted.
+ */
+export function blobStore (name = 'rate-limit'):RateLimitStore {
+    // made on the first request, where the Blobs context is set
+    let blobs:ReturnType<typeof getStore>|undefined
+    const store = () => (blobs ??= getStore({ name, consistency: 'strong' }))
+
+    return {
+        async update (key, fn, ttl) {
+            // try again if another request changed the entry
+            for (let i = 0; i < 5; i++) {
+                const entry = await store().getWithMetadata(key, { type: 'json' })
+                const current = entry?.data as Entry|undefined
+                const result = fn(current && current.expires > Date.now() ?
+                    current.value as never :
+                    null)
+
+                const next:Entry = { value: result.state, expires: Date.now() + ttl }
+                const { modified } = entry ?
+                    await store().setJSON(key, next, { onlyIfMatch: entry.etag }) :
+                    await store().setJSON(key, next, { onlyIfNew: true })
+                if (modified) return result
+            }
+
+            throw new Error('Could not update the rate limit for ' + key)
+        }
+    }
+}
+
+// one store for every function in the dev server
+let devStore:RateLimitStore|undefined
+
+/**
+ * Netlify Blobs in production, and memory under `netlify dev` or
+ * `ntl functions:serve`.
+ */
+export function rateLimitStore ():RateLimitStore {
+    if (process.env.NETLIFY_DEV === 'true') return (devStore ??= memoryStore())
+    return blobStore()
+}
@@ -0,0 +1,209 @@
+import type { Context } from '@netlify/functions'
+import { HttpError, type Middleware, setHeaders } from './http.js'
+
+/**
+ * Rate limits for functions. An `Algorithm` decides if a request is
+ * allowed, and a `RateLimitStore` keeps its state for each client.
+ *
+ * @example
+ * export default handler({ POST: ... }, {
+ *     use: [rateLimit({
+ *         algorithm: fixedWindow({ limit: 5, window: 60_000 }),
+ *         store: rateLimitStore()
+ *     })]
+ * })
+ */
+
+export interface Decision<S> {
+    state:S;
+    allowed:boolean;
+    /**
+     * Requests left before the limit.
+     */
+    remaining:number;
+    /**
+     * Milliseconds until the next request is allowed, if this one
+     * is not allowed. Otherwise, until the limit is full again.
+     */
+    wait:number;
+}
+
+export interface Algorithm<S = unknown> {
+    limit:number;
+    /**
+     * Milliseconds to keep the state for a client.
+     */
+    ttl:number;
+    /**
+     * Decide about a request, given the state from the last request, or
+     * `null` if this is the first one.
+     */
+    take (state:S|null, now:number):Decision<S>;
+}
+
+/**
+ * Keeps the state of each client. `update` reads the state for a key,
+ * passes it to `fn`, and saves the result.
+ */
+export interface RateLimitStore {
+    update<S, R extends { state:S }> (
+        key:string,
+        fn:(state:S|null)=>R,
+        ttl:number
+    ):Promise<R>;
+}
+
+/**
+ * Allow `limit` requests in each `window` milliseconds. The count starts
+ * again at the end of each window.
+ */
+export function fixedWindow ({ limit, window }:{
+    limit:number;
+    window:number;
+}):Algorithm<{ count:number; reset:number }> {
+    return {
+        limit,
+        ttl: window,
+        take (state, now) {
+            const current = (state && state.reset > now) ?
+                state :
+                { count: 0, reset: now + window }
+            const allowed = current.count < limit
+            const count = allowed ? current.count + 1 : current.count
+
+            return {
+                state: { count, reset: current.reset },
+                allowed,
+                remaining: limit - count,
+                wait: current.reset - now
+            }
+        }
+    }
+}
+
+/**
+ * Allow `limit` requests in each `window` milliseconds, spread out. The
+ * bucket holds up to `burst` tokens (default `limit`), a request takes one,
+ * and tokens are added back at a steady rate.
+ */
+export function tokenBucket ({ limit, window, burst = limit }:{
+    limit:number;
+    window:number;
+    burst?:number;
+}):Algorithm<{ tokens:number; updated:number }> {
+    // tokens per millisecond
+    const rate = limit / window
+
+    return {
+        limit: burst,
+        ttl: Math.ceil(burst / rate),
+        take (state, now) {
+            const tokens = state ?
+                Math.min(burst, state.tokens + (now - state.updated) * rate) :
+                burst
+            const allowed = tokens >= 1
+            const left = allowed ? tokens - 1 : tokens
+
+            return {
+                state: { tokens: left, updated: now },
+                allowed,
+                remaining: Math.floor(left),
+                wait: allowed ?
+                    Math.ceil((burst - left) / rate) :
+                    Math.ceil((1 - left) / rate)
+            }
+        }
+    }
+}
+
+/**
+ * Keep the state in memory. This is for local development and tests;
+ * in production each function instance would have its own memory.
+ */
+export function memoryStore ():RateLimitStore {
+    const entries = new Map<string, { value:unknown; expires:number }>()
+
+    return {
+        async update (key, fn, ttl) {
+            const now = Date.now()
+            // drop expired entries as we go
+            for (const [k, entry] of entries) {
+                if (entry.expires <= now) entries.delete(k)
+            }
+
+            const entry = entries.get(key)
+            const result = fn(entry ? entry.value as never : null)
+            entries.set(key, { value: result.state, expires: now + ttl })
+            return result
+        }
+    }
+}
+
+export type KeyFn = (
+    req:Request,
+    context:Context
+)=>string|null|Promise<string|null>
+
+/**
+ * Limit each IP address.
+ */
+export const byIp:KeyFn = (_req, context) => context.ip || null
+
+/**
+ * Limit requests to a function. Requests over the limit get a 429, with a
+ * `Retry-After` header. Every other response has `RateLimit-*` headers.
+ *
+ * Wrap the handler for a method, so a CORS preflight, `HEAD` request, or
+ * 405 does not use up the limit. In `use`, only `OPTIONS` requests are
+ * not limited.
+ *
+ * @example
+ * const limit = rateLimit({ algorithm, store: rateLimitStore() })
+ * export default handler({ POST: limit(async (req) => { ... }) })
+ */
+export function rateLimit<S> ({
+    algorithm,
+    store,
+    key = byIp,
+    prefix = ''
+}:{
+    algorithm:Algorithm<S>;
+    store:RateLimitStore;
+    /**
+     * Which client made the request. Default is `byIp`. A request without
+     * a key is not limited.
+     */
+    key?:KeyFn;
+    /**
+     * Added to the start of each key, so functions can share a store.
+     */
+    prefix?:string;
+}):Middleware {
+    return (next) => async (req, context) => {
+        if (req.method === 'OPTIONS') return next(req, context)
+        const id = await key(req, context)
+        if (!id) return next(req, context)
+
+        const now = Date.now()
+        const decision = await store.update<S, Decision<S>>(
+            prefix + id,
+            (state) => algorithm.take(state, now),
+            algorithm.ttl
+        )
+
+        const seconds = String(Math.ceil(decision.wait / 1000))
+        const headers = {
+            'RateLimit-Limit': String(algorithm.limit),
+            'RateLimit-Remaining': String(decision.remaining),
+            'RateLimit-Reset': seconds
+        }
+
+        if (!decision.allowed) {
+            throw new HttpError(429, 'Too many requests. Try again later.', {
+                headers: { ...headers, 'Retry-After': seconds }
+            })
+        }
+
+        return setHeaders(await next(req, context), headers)
+    }
+}
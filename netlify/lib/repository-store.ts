@@ -0,0 +1,132 @@
+import { createHash } from 'node:crypto'
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { getStore } from '@netlify/blobs'
+import {
+    ConflictError,
+    type Entry,
+    type Repository,
+    paginate
+} from './repository.js'
+
+/**
+ * Keep values in a Netlify Blobs store. Writes with an `etag` are
+ * conditional in Blobs, so two requests can't both change the same version.
+ *
+ * `list` reads every key with the prefix, then the values for one page.
+ */
+export function blobRepository<T> (name:string):Repository<T> {
+    const store = getStore({ name, consistency: 'strong' })
+
+    async function get (key:string):Promise<Entry<T>|null> {
+        const blob = await store.getWithMetadata(key, { type: 'json' })
+        if (!blob) return null
+        return { key, value: blob.data as T, etag: blob.etag || '' }
+    }
+
+    return {
+        get,
+
+        async put (key, value, opts = {}) {
+            const { modified, etag } = await store.setJSON(key, value,
+                opts.onlyIfNew ?
+                    { onlyIfNew: true } :
+                    (opts.etag ? { onlyIfMatch: opts.etag } : {}))
+            if (!modified) throw new ConflictError(key)
+
+            return { key, value, etag: etag || '' }
+        },
+
+        async list (opts) {
+            const { blobs } = await store.list({ prefix: opts?.prefix })
+            const page = paginate(blobs.map(blob => blob.key), opts)
+            const items = await Promise.all(page.keys.map(get))
+
+            return {
+                // skip any that were deleted since the list
+                items: items.filter(item => item !== null),
+                cursor: page.cursor
+            }
+        },
+
+        async delete (key) {
+            await store.delete(key)
+        }
+    }
+}
+
+/**
+ * Keep values in JSON files, one for each key, for local development. The
+ * etag is a hash of the file.
+ */
+export function fileRepository<T> (dir:string):Repository<T> {
+    const file = (key:string) => join(dir, encodeURIComponent(key) + '.json')
+    const hash = (json:string) => {
+        return createHash('sha1').update(json).digest('base64url')
+    }
+
+    async function get (key:string):Promise<Entry<T>|null> {
+        let json:string
+        try {
+            json = await readFile(file(key), 'utf8')
+        } catch (err) {
+            if ((err as { code?:string }).code === 'ENOENT') return null
+            throw err
+        }
+
+        return { key, value: JSON.parse(json), etag: hash(json) }
+    }
+
+    return {
+        get,
+
+        // this reads then writes, so it's only safe for one user
+        async put (key, value, opts = {}) {
+            const current = await get(key)
+            if (opts.onlyIfNew && current) throw new ConflictError(key)
+            if (opts.etag && opts.etag !== current?.etag) {
+                throw new ConflictError(key)
+            }
+
+            const json = JSON.stringify(value)
+            await mkdir(dir, { recursive: true })
+            await writeFile(file(key), json)
+            return { key, value, etag: hash(json) }
+        },
+
+        async list (opts) {
+            let names:string[] = []
+            try {
+                names = await readdir(dir)
+            } catch (_err) {
+                // no directory means no values yet
+            }
+
+            const keys = names
+                .filter(name => name.endsWith('.json'))
+                .map(name => decodeURIComponent(name.slice(0, -5)))
+            const page = paginate(keys, opts)
+            const items = await Promise.all(page.keys.map(get))
+
+            return {
+                items: items.filter(item => item !== null),
+                cursor: page.cursor
+            }
+        },
+
+        async delete (key) {
+            await rm(file(key), { force: true })
+        }
+    }
+}
+
+/**
+ * Netlify Blobs in production, and files in `.netlify/data` under
+ * `netlify dev` or `ntl functions:serve`.
+ */
+export function repository<T> (name:string):Repository<T> {
+    if (process.env.NETLIFY_DEV === 'true') {
+        return fileRepository<T>(join('.netlify', 'data', name))
+    }
+    return blobRepository<T>(name)
+}
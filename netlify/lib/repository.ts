@@ -0,0 +1,149 @@
+import { HttpError } from './http.js'
+
+/**
+ * A place for functions to keep JSON values by key. `repository()` in
+ * `./repository-store.ts` uses Netlify Blobs in production, and files
+ * under `ntl functions:serve`.
+ *
+ * @example
+ * const notes = repository<Note>('notes')
+ * const entry = await notes.get('alice/1')
+ * await notes.put('alice/1', { ...entry.value, text }, { etag: entry.etag })
+ */
+
+export interface Entry<T> {
+    key:string;
+    value:T;
+    /**
+     * The version of the value. It changes every time the value is saved.
+     */
+    etag:string;
+}
+
+export interface Page<T> {
+    items:Entry<T>[];
+    /**
+     * Pass this to `list` for the next page. `null` on the last page.
+     */
+    cursor:string|null;
+}
+
+export interface ListOptions {
+    /**
+     * Only keys that start with this.
+     */
+    prefix?:string;
+    /**
+     * The most items in a page. Default is 20.
+     */
+    limit?:number;
+    cursor?:string|null;
+}
+
+export interface PutOptions {
+    /**
+     * Only save if the stored value still has this etag.
+     */
+    etag?:string;
+    /**
+     * Only save if there is no value for the key.
+     */
+    onlyIfNew?:boolean;
+}
+
+/**
+ * Values are saved as JSON, so `T` should be plain data.
+ */
+export interface Repository<T> {
+    get (key:string):Promise<Entry<T>|null>;
+    /**
+     * Save a value.
+     *
+     * @throws {ConflictError} If the `etag` or `onlyIfNew` condition fails.
+     */
+    put (key:string, value:T, opts?:PutOptions):Promise<Entry<T>>;
+    /**
+     * Entries in key order.
+     */
+    list (opts?:ListOptions):Promise<Page<T>>;
+    delete (key:string):Promise<void>;
+}
+
+/**
+ * The value was changed by someone else. This is a 412 if a function
+ * doesn't catch it.
+ */
+export class ConflictError extends HttpError {
+    key:string
+
+    constructor (key:string) {
+        super(412, 'This was changed somewhere else. Reload it, and ' +
+            'try again.')
+        this.name = 'ConflictError'
+        this.key = key
+    }
+}
+
+/**
+ * One page of some keys. The cursor is the last key in the page.
+ */
+export function paginate (
+    keys:string[],
+    { prefix = '', limit = 20, cursor }:ListOptions = {}
+):{ keys:string[]; cursor:string|null } {
+    const matching = keys
+        .filter(key => key.startsWith(prefix) && (!cursor || key > cursor))
+        .sort()
+    const page = matching.slice(0, limit)
+
+    return {
+        keys: page,
+        cursor: matching.length > limit ? page[page.length - 1] : null
+    }
+}
+
+/**
+ * Keep values in memory, for tests.
+ */
+export function memoryRepository<T> ():Repository<T> {
+    const entries = new Map<string, { json:string; etag:string }>()
+    let version = 0
+
+    function read (key:string):Entry<T>|null {
+        const entry = entries.get(key)
+        if (!entry) return null
+        return { key, value: JSON.parse(entry.json), etag: entry.etag }
+    }
+
+    return {
+        async get (key) {
+            return read(key)
+        },
+
+        async put (key, value, opts = {}) {
+            const current = entries.get(key)
+            if (opts.onlyIfNew && current) throw new ConflictError(key)
+            if (opts.etag && opts.etag !== current?.etag) {
+                throw new ConflictError(key)
+            }
+
+            entries.set(key, {
+                json: JSON.stringify(value),
+                etag: String(++version)
+            })
+            return read(key)!
+        },
+
+        async list (opts) {
+            const page = paginate([...entries.keys()], opts)
+            return {
+                items: page.keys.map(key => read(key)!),
+                cursor: page.cursor
+            }
+        },
+
+        async delete (key) {
+            entries.delete(key)
+        }
+    }
+}
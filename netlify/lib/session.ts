@@ -0,0 +1,167 @@
+import type { User } from '../../shared/auth.js'
+
+/**
+ * Session cookies. The session is a signed, HTTP-only cookie, so there is
+ * no session store. See `./auth.ts` for the functions to use in a
+ * netlify function.
+ */
+
+export const COOKIE_NAME = 'session'
+
+/**
+ * Seven days, in seconds.
+ */
+export const MAX_AGE = 60 * 60 * 24 * 7
+
+interface Session {
+    user:User;
+    /**
+     * Expiry time, in seconds since the epoch.
+     */
+    exp:number;
+}
+
+/**
+ * Sign a value with HMAC-SHA256. The result is `value.signature`.
+ */
+export async function sign (value:string, secret:string):Promise<string> {
+    const sig = await crypto.subtle.sign(
+        'HMAC',
+        await hmacKey(secret),
+        new TextEncoder().encode(value)
+    )
+
+    return value + '.' + toBase64Url(new Uint8Array(sig))
+}
+
+/**
+ * Check the signature of a signed value.
+ *
+ * @returns The value, or `null` if the signature is wrong.
+ */
+export async function unsign (
+    signed:string,
+    secret:string
+):Promise<string|null> {
+    const i = signed.lastIndexOf('.')
+    if (i === -1) return null
+    const value = signed.slice(0, i)
+
+    let sig:Uint8Array<ArrayBuffer>
+    try {
+        sig = fromBase64Url(signed.slice(i + 1))
+    } catch (_err) {
+        return null
+    }
+
+    // `verify` compares in constant time
+    const ok = await crypto.subtle.verify(
+        'HMAC',
+        await hmacKey(secret),
+        sig,
+        new TextEncoder().encode(value)
+    )
+
+    return ok ? value : null
+}
+
+/**
+ * Log a user in.
+ *
+ * @returns The `Set-Cookie` header.
+ */
+export async function createSession (
+    req:Request,
+    user:User,
+    secret:string
+):Promise<string> {
+    const session:Session = {
+        user,
+        exp: Math.floor(Date.now() / 1000) + MAX_AGE
+    }
+    const value = await sign(
+        toBase64Url(new TextEncoder().encode(JSON.stringify(session))),
+        secret
+    )
+
+    return cookie(req, value, MAX_AGE)
+}
+
+/**
+ * Log out.
+ *
+ * @returns The `Set-Cookie` header.
+ */
+export function clearSession (req:Request):string {
+    return cookie(req, '', 0)
+}
+
+/**
+ * The logged in user, or `null` if the session cookie is missing, has a bad
+ * signature, or has expired.
+ */
+export async function getUser (
+    req:Request,
+    secret:string
+):Promise<User|null> {
+    const signed = parseCookies(req.headers.get('cookie'))[COOKIE_NAME]
+    if (!signed) return null
+
+    const value = await unsign(signed, secret)
+    if (!value) return null
+
+    let session:Session
+    try {
+        session = JSON.parse(new TextDecoder().decode(fromBase64Url(value)))
+    } catch (_err) {
+        return null
+    }
+
+    if (!session.exp || session.exp < Date.now() / 1000) return null
+    return session.user
+}
+
+export function parseCookies (header:string|null):Record<string, string> {
+    if (!header) return {}
+    return Object.fromEntries(header.split(';').map(pair => {
+        const i = pair.indexOf('=')
+        if (i === -1) return [pair.trim(), '']
+        return [pair.slice(0, i).trim(), pair.slice(i + 1).trim()]
+    }))
+}
+
+function cookie (req:Request, value:string, maxAge:number):string {
+    return [
+        `${COOKIE_NAME}=${value}`,
+        'Path=/',
+        `Max-Age=${maxAge}`,
+        'HttpOnly',
+        'SameSite=Lax',
+        // local dev is plain http
+        new URL(req.url).protocol === 'https:' ? 'Secure' : null
+    ].filter(Boolean).join('; ')
+}
+
+function hmacKey (secret:string):Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    )
+}
+
+function toBase64Url (bytes:Uint8Array):string {
+    let str = ''
+    bytes.forEach(b => { str += String.fromCharCode(b) })
+    return btoa(str)
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '')
+}
+
+function fromBase64Url (str:string):Uint8Array<ArrayBuffer> {
+    const base64 = str.replace(/-/g, '+').replace(/_/g, '/')
+    return Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+}
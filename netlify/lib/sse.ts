@@ -0,0 +1,124 @@
+/**
+ * Server-sent events from a function. The stream ends after `duration`,
+ * because functions can only run for a while; the client reconnects, and
+ * sends the last event ID it saw in the `Last-Event-ID` header.
+ *
+ * @example
+ * GET: (req) => eventStream(req, async (send, signal) => {
+ *     send({ event: 'hello', data: { hello: 'world' } })
+ * })
+ */
+
+export interface ServerEvent {
+    /**
+     * The event type. Default is `message`.
+     */
+    event?:string;
+    /**
+     * Sent back by the client, as `Last-Event-ID`, when it reconnects.
+     */
+    id?:string;
+    /**
+     * Strings are sent as they are, anything else as JSON.
+     */
+    data:unknown;
+    /**
+     * Milliseconds the client should wait before reconnecting.
+     */
+    retry?:number;
+}
+
+export function formatEvent ({ event, id, data, retry }:ServerEvent):string {
+    const lines:string[] = []
+    if (event) lines.push('event: ' + event)
+    if (id !== undefined) lines.push('id: ' + id)
+    if (retry !== undefined) lines.push('retry: ' + retry)
+    const text = typeof data === 'string' ? data : JSON.stringify(data)
+    for (const line of text.split(/\r\n|\r|\n/)) lines.push('data: ' + line)
+
+    return lines.join('\n') + '\n\n'
+}
+
+/**
+ * Make a `text/event-stream` response. `start` is called with a function
+ * that sends an event, and a signal that is aborted when the client goes
+ * away, or after `duration` milliseconds. The stream ends when `start`
+ * is done, or the signal is aborted.
+ */
+export function eventStream (
+    req:Request,
+    start:(
+        send:(event:ServerEvent)=>void,
+        signal:AbortSignal
+    )=>void|Promise<void>,
+    { duration = 20_000, retry = 1000 }:{
+        duration?:number;
+        retry?:number;
+    } = {}
+):Response {
+    const controller = new AbortController()
+    const encoder = new TextEncoder()
+
+    const body = new ReadableStream<Uint8Array>({
+        start (stream) {
+            let closed = false
+            const timer = setTimeout(close, duration)
+            req.signal.addEventListener('abort', close)
+            // the stream was cancelled, so stop sending
+            controller.signal.addEventListener('abort', close)
+
+            function close () {
+                if (closed) return
+                closed = true
+                clearTimeout(timer)
+                req.signal.removeEventListener('abort', close)
+                controller.signal.removeEventListener('abort', close)
+                controller.abort()
+                try {
+                    stream.close()
+                } catch (_err) {
+                    // the client cancelled the stream
+                }
+            }
+
+            function send (event:ServerEvent) {
+                if (!closed) stream.enqueue(encoder.encode(formatEvent(event)))
+            }
+
+            // tell the client how long to wait before reconnecting
+            stream.enqueue(encoder.encode(`retry: ${retry}\n\n`))
+
+            Promise.resolve()
+                .then(() => start(send, controller.signal))
+                .catch(err => console.error('event stream failed', err))
+                .finally(close)
+        },
+
+        cancel () {
+            controller.abort()
+        }
+    })
+
+    return new Response(body, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-store'
+        }
+    })
+}
+
+/**
+ * Wait, or stop waiting when the signal is aborted.
+ */
+export function sleep (ms:number, signal?:AbortSignal):Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms)
+        signal?.addEventListener('abort', done)
+
+        function done () {
+            clearTimeout(timer)
+            signal?.removeEventListener('abort', done)
+            resolve()
+        }
+    })
+}
@@ -0,0 +1,46 @@
+import { scrypt, timingSafeEqual } from 'node:crypto'
+import { promisify } from 'node:util'
+import type { User } from '../../shared/auth.js'
+
+const hash = promisify(scrypt) as (
+    password:string,
+    salt:string,
+    keylen:number
+)=>Promise<Buffer>
+
+interface StoredUser extends User {
+    salt:string;
+    /**
+     * scrypt hash of the password, base64url encoded.
+     */
+    passwordHash:string;
+}
+
+/**
+ * The users. This is where you would use a database.
+ *
+ * The demo user is `demo`, with the password `demo`.
+ */
+const users:StoredUser[] = [{
+    id: '1',
+    username: 'demo',
+    name: 'Demo User',
+    salt: 'c2FsdC1mb3ItZGVtbw',
+    passwordHash: 'eWxpthTwcPFwvOSaeDA7Pxuhmwp3OaK2gaV5O4PQW0Q'
+}]
+
+/**
+ * @returns The user, or `null` if the username or password is wrong.
+ */
+export async function checkPassword (
+    username:string,
+    password:string
+):Promise<User|null> {
+    const stored = users.find(u => u.username === username.toLowerCase())
+    // hash anyway, so a wrong username takes as long as a wrong password
+    const expected = Buffer.from(stored?.passwordHash ?? '', 'base64url')
+    const actual = await hash(password, stored?.salt ?? 'no-user', 32)
+    if (!stored || !timingSafeEqual(actual, expected)) return null
+
+    return { id: stored.id, username: stored.username, name: stored.name }
+}
@@ -0,0 +1,52 @@
+/**
+ * Request and response types for the netlify functions. These are imported
+ * by the functions, and by the API client in the browser.
+ */
+import type { FieldErrors } from './schema.js'
+import type { User } from './auth.js'
+export type { ContactRequest, ContactResponse } from './contact.js'
+export type {
+    User,
+    LoginRequest,
+    LoginResponse,
+    SessionResponse
+} from './auth.js'
+export type {
+    Note,
+    NoteRequest,
+    NoteResponse,
+    NotesResponse
+} from './notes.js'
+export type { SharedCount } from './counter.js'
+
+/**
+ * The JSON body of a failed request.
+ */
+export interface ErrorBody<T = Record<string, string>> {
+    ok?:false;
+    error?:string;
+    /**
+     * Errors for each field, if the request body was not valid.
+     */
+    errors?:FieldErrors<T>;
+    /**
+     * The `X-Request-Id` header, to find the request in the function logs.
+     */
+    requestId?:string;
+}
+
+/**
+ * GET /api/example
+ */
+export interface ExampleResponse {
+    param?:string;
+    splat?:string;
+}
+
+/**
+ * GET /api/account. Only for logged in users.
+ */
+export interface AccountResponse {
+    user:User;
+    since:string;
+}
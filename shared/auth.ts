@@ -0,0 +1,32 @@
+import { type FieldErrors, type Schema, rules, validate } from './schema.js'
+
+export interface User {
+    id:string;
+    username:string;
+    name:string;
+}
+
+export interface LoginRequest {
+    username:string;
+    password:string;
+}
+
+export type LoginResponse =
+    | { ok:true; user:User }
+    | { ok:false; errors?:FieldErrors<LoginRequest>; error?:string }
+
+/**
+ * GET /api/session. `user` is `null` if nobody is logged in.
+ */
+export interface SessionResponse {
+    user:User|null;
+}
+
+export const loginSchema:Schema<LoginRequest> = {
+    username: [rules.required('Enter your username'), rules.maxLength(100)],
+    password: [rules.required('Enter your password'), rules.maxLength(200)]
+}
+
+export function validateLogin (data:unknown) {
+    return validate<LoginRequest>(loginSchema, data)
+}
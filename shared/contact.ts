@@ -0,0 +1,21 @@
+import { type FieldErrors, type Schema, rules, validate } from './schema.js'
+
+export interface ContactRequest {
+    name:string;
+    email:string;
+    message:string;
+}
+
+export type ContactResponse =
+    | { ok:true }
+    | { ok:false; errors:FieldErrors<ContactRequest> }
+
+export const contactSchema:Schema<ContactRequest> = {
+    name: [rules.required('Enter your name'), rules.maxLength(100)],
+    email: [rules.required('Enter your email address'), rules.email()],
+    message: [rules.required('Enter a message'), rules.maxLength(5000)]
+}
+
+export function validateContact (data:unknown) {
+    return validate<ContactRequest>(contactSchema, data)
+}
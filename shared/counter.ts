@@ -0,0 +1,7 @@
+/**
+ * The counter that every visitor shares. POST /api/counter adds one, and
+ * GET /api/events sends a `count` event when it changes.
+ */
+export interface SharedCount {
+    count:number;
+}
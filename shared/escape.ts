@@ -0,0 +1,12 @@
+/**
+ * Escape text for HTML or XML, in element content or a quoted attribute.
+ * Used for the prerendered pages, the document head, and the sitemap.
+ */
+export function escape (text:string):string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
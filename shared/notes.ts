@@ -0,0 +1,43 @@
+import { type Schema, rules, validate } from './schema.js'
+
+export interface Note {
+    id:string;
+    text:string;
+    /**
+     * ISO date strings.
+     */
+    created:string;
+    updated:string;
+}
+
+/**
+ * The body of POST and PUT /api/notes.
+ */
+export interface NoteRequest {
+    text:string;
+}
+
+/**
+ * A note, and its version. Send the `etag` in the `If-Match` header to
+ * change the note.
+ */
+export interface NoteResponse {
+    note:Note;
+    etag:string;
+}
+
+/**
+ * GET /api/notes. Pass `cursor` to get the next page, if it is not `null`.
+ */
+export interface NotesResponse {
+    notes:NoteResponse[];
+    cursor:string|null;
+}
+
+export const noteSchema:Schema<NoteRequest> = {
+    text: [rules.required('Write something'), rules.maxLength(500)]
+}
+
+export function validateNote (data:unknown) {
+    return validate<NoteRequest>(noteSchema, data)
+}
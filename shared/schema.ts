@@ -0,0 +1,70 @@
+/**
+ * A tiny validation schema, shared by the browser code and the netlify
+ * functions, so the same rules run on both sides of a request.
+ */
+
+/**
+ * A rule takes a field value and returns an error message,
+ * or `null` if the value is ok.
+ */
+export type Rule = (value:string) => string|null
+
+export type Schema<T> = { [K in keyof T]-?:Rule[] }
+
+export type FieldErrors<T> = Partial<Record<keyof T, string>>
+
+export type Validation<T> =
+    | { ok:true; value:T }
+    | { ok:false; errors:FieldErrors<T> }
+
+/**
+ * Validate some unknown data against a schema. Each field reports only its
+ * first error.
+ */
+export function validate<T extends { [K in keyof T]:string }> (
+    schema:Schema<T>,
+    data:unknown
+):Validation<T> {
+    const input = (data && typeof data === 'object') ?
+        data as Record<string, unknown> :
+        {}
+
+    const value = {} as Record<string, string>
+    const errors:FieldErrors<T> = {}
+
+    for (const key of Object.keys(schema) as (keyof T & string)[]) {
+        const raw = input[key]
+        const str = typeof raw === 'string' ? raw.trim() : ''
+        value[key] = str
+
+        for (const rule of schema[key]) {
+            const err = rule(str)
+            if (err) {
+                errors[key] = err
+                break
+            }
+        }
+    }
+
+    if (Object.keys(errors).length) return { ok: false, errors }
+    return { ok: true, value: value as T }
+}
+
+export const rules = {
+    required (message = 'This field is required'):Rule {
+        return (value) => (value.length ? null : message)
+    },
+
+    maxLength (max:number, message?:string):Rule {
+        return (value) => (value.length <= max ?
+            null :
+            (message || `Must be ${max} characters or less`))
+    },
+
+    email (message = 'Enter a valid email address'):Rule {
+        // intentionally loose -- the only real check is sending an email
+        return (value) => (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ?
+            null :
+            message)
+    }
+}
@@ -0,0 +1,280 @@
+import ky, { type Options, isHTTPError, isTimeoutError } from 'ky'
+import { type Signal, signal } from '@preact/signals'
+import { useEffect, useMemo } from 'preact/hooks'
+import Debug from '@substrate-system/debug'
+import type {
+    AccountResponse,
+    ContactRequest,
+    ContactResponse,
+    ErrorBody,
+    ExampleResponse,
+    LoginRequest,
+    LoginResponse,
+    NoteRequest,
+    NoteResponse,
+    NotesResponse,
+    SessionResponse,
+    SharedCount
+} from '../shared/api.js'
+const debug = Debug('example:api')
+
+/**
+ * An HTTP client for the netlify functions.
+ *   - In production, `/api/*` is redirected to the functions
+ *     (see `netlify.toml`).
+ *   - In dev, vite proxies `/api` to `ntl functions:serve`.
+ */
+export const client = ky.create({
+    prefixUrl: '/api',
+    timeout: 10_000,
+    retry: {
+        limit: 2,
+        methods: ['get', 'head', 'options'],
+        statusCodes: [408, 429, 500, 502, 503, 504]
+    }
+})
+
+export type ApiErrorKind = 'network'|'timeout'|'abort'|'client'|'server'
+
+/**
+ * All errors from the API client are normalized to this.
+ *   - `client` and `server` errors have a `status`, and the parsed
+ *     JSON `body` if there was one.
+ */
+export class ApiError<T = ErrorBody> extends Error {
+    kind:ApiErrorKind
+    status:number|null
+    body:T|null
+
+    constructor (kind:ApiErrorKind, message:string, opts:{
+        status?:number;
+        body?:T|null;
+        cause?:unknown;
+    } = {}) {
+        super(message, { cause: opts.cause })
+        this.name = 'ApiError'
+        this.kind = kind
+        this.status = opts.status ?? null
+        this.body = opts.body ?? null
+    }
+
+    static async from<T = ErrorBody> (err:unknown):Promise<ApiError<T>> {
+        if (err instanceof ApiError) return err
+
+        if (isHTTPError(err)) {
+            const { status } = err.response
+            let body:T|null = null
+            try {
+                body = await err.response.json() as T
+            } catch (_err) {
+                // no JSON body
+            }
+
+            // the functions send a message in the error body
+            const message = (body as ErrorBody|null)?.error || err.message
+            return new ApiError<T>(status < 500 ? 'client' : 'server',
+                message, { status, body, cause: err })
+        }
+
+        if (isTimeoutError(err)) {
+            return new ApiError<T>('timeout', 'Request timed out',
+                { cause: err })
+        }
+
+        if ((err as { name?:string })?.name === 'AbortError') {
+            return new ApiError<T>('abort', 'Request was aborted',
+                { cause: err })
+        }
+
+        return new ApiError<T>('network',
+            (err instanceof Error ? err.message : String(err)),
+            { cause: err })
+    }
+}
+
+/**
+ * Make a request and parse the JSON response. Any error is converted
+ * to an `ApiError`.
+ */
+export async function request<T> (
+    path:string,
+    options?:Options
+):Promise<T> {
+    try {
+        return await client(path, options).json<T>()
+    } catch (err) {
+        const apiError = await ApiError.from(err)
+        debug('request error', apiError)
+        throw apiError
+    }
+}
+
+/**
+ * Typed calls for each function.
+ */
+export const api = {
+    example (opts?:Options):Promise<ExampleResponse> {
+        return request<ExampleResponse>('example', opts)
+    },
+
+    contact (
+        body:ContactRequest,
+        opts?:Options
+    ):Promise<ContactResponse> {
+        return request<ContactResponse>('contact', {
+            ...opts,
+            method: 'post',
+            json: body
+        })
+    },
+
+    login (body:LoginRequest, opts?:Options):Promise<LoginResponse> {
+        return request<LoginResponse>('login', {
+            ...opts,
+            method: 'post',
+            json: body
+        })
+    },
+
+    logout (opts?:Options):Promise<{ ok:true }> {
+        return request<{ ok:true }>('logout', { ...opts, method: 'post' })
+    },
+
+    session (opts?:Options):Promise<SessionResponse> {
+        return request<SessionResponse>('session', opts)
+    },
+
+    account (opts?:Options):Promise<AccountResponse> {
+        return request<AccountResponse>('account', opts)
+    },
+
+    notes (
+        { cursor }:{ cursor?:string|null } = {},
+        opts?:Options
+    ):Promise<NotesResponse> {
+        return request<NotesResponse>('notes', {
+            ...opts,
+            searchParams: cursor ? { cursor } : undefined
+        })
+    },
+
+    note (id:string, opts?:Options):Promise<NoteResponse> {
+        return request<NoteResponse>('notes', { ...opts, searchParams: { id } })
+    },
+
+    createNote (body:NoteRequest, opts?:Options):Promise<NoteResponse> {
+        return request<NoteResponse>('notes', {
+            ...opts,
+            method: 'post',
+            json: body
+        })
+    },
+
+    /**
+     * Rejects with a 412 if the note changed since `etag`.
+     */
+    updateNote (
+        id:string,
+        body:NoteRequest,
+        etag:string,
+        opts?:Options
+    ):Promise<NoteResponse> {
+        return request<NoteResponse>('notes', {
+            ...opts,
+            method: 'put',
+            searchParams: { id },
+            headers: { 'If-Match': etag },
+            json: body
+        })
+    },
+
+    async deleteNote (id:string, opts?:Options):Promise<void> {
+        await request<unknown>('notes', {
+            ...opts,
+            method: 'delete',
+            searchParams: { id }
+        })
+    },
+
+    /**
+     * Add one to the counter that everyone shares. The new count is also
+     * sent by the `events` function.
+     */
+    incrementCounter (opts?:Options):Promise<SharedCount> {
+        return request<SharedCount>('counter', { ...opts, method: 'post' })
+    }
+}
+
+export interface Resource<T, A extends unknown[]> {
+    data:Signal<T|null>;
+    error:Signal<ApiError|null>;
+    loading:Signal<boolean>;
+    /**
+     * Start a request. Any request that is still in progress is aborted.
+     * Resolves with the data, or `undefined` if the request failed or was
+     * aborted.
+     */
+    run:(...args:A)=>Promise<T|undefined>;
+    abort:()=>void;
+}
+
+/**
+ * Wrap an API call with signals for `data`, `error` and `loading`, so a view
+ * can render the state of a request.
+ *
+ * @param fn The API call. It gets an `AbortSignal`, then any arguments
+ *   passed to `run`.
+ */
+export function resource<T, A extends unknown[] = []> (
+    fn:(signal:AbortSignal, ...args:A)=>Promise<T>
+):Resource<T, A> {
+    const data = signal<T|null>(null)
+    const error = signal<ApiError|null>(null)
+    const loading = signal<boolean>(false)
+    let controller:AbortController|null = null
+
+    function abort () {
+        if (!controller) return
+        controller.abort()
+        controller = null
+        loading.value = false
+    }
+
+    async function run (...args:A):Promise<T|undefined> {
+        abort()
+        const ctrl = controller = new AbortController()
+        loading.value = true
+        error.value = null
+
+        try {
+            const res = await fn(ctrl.signal, ...args)
+            if (ctrl.signal.aborted) return
+            data.value = res
+            return res
+        } catch (err) {
+            const apiError = await ApiError.from(err)
+            // a newer request is in charge of the state now
+            if (apiError.kind === 'abort' || ctrl.signal.aborted) return
+            error.value = apiError
+        } finally {
+            if (controller === ctrl) {
+                loading.value = false
+                controller = null
+            }
+        }
+    }
+
+    return { data, error, loading, run, abort }
+}
+
+/**
+ * A `resource` scoped to a component. The request is aborted when the
+ * component unmounts.
+ */
+export function useResource<T, A extends unknown[] = []> (
+    fn:(signal:AbortSignal, ...args:A)=>Promise<T>
+):Resource<T, A> {
+    const res = useMemo(() => resource<T, A>(fn), [])
+    useEffect(() => res.abort, [])
+    return res
+}
@@ -0,0 +1,213 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import type Router from '@substrate-system/routes'
+import Debug from '@substrate-system/debug'
+import type { State } from './state.js'
+import { NotFound, routes } from './routes/index.js'
+import { NotFoundError, prefetch } from './router.js'
+import type { Navigation, Page } from './navigation.js'
+import { RouteError, RouteView } from './components/route-view.js'
+import { ErrorBoundary } from './components/error-boundary.js'
+import { ConfirmDialog } from './components/dialog.js'
+import { Toasts } from './components/toasts.js'
+import { UpdatePrompt } from './components/update-prompt.js'
+import { InstallButton } from './components/install-button.js'
+import { Button } from './components/button.js'
+import { logout } from './auth.js'
+import { type HeadOptions, useHead } from './head.js'
+import {
+    ROUTE_ATTR,
+    RouteAnnouncer,
+    focusContent
+} from './components/route-announcer.js'
+import './style.css'
+const debug = Debug('example')
+
+export const APP_NAME = 'ABC'
+
+/**
+ * The head for every page. Routes change it with `useHead`.
+ */
+export const HEAD:HeadOptions = {
+    titleTemplate: '%s · ' + APP_NAME,
+    defaultTitle: APP_NAME,
+    defaults: {
+        description: 'A template for applications using preact, htm, ' +
+            'and netlify.'
+    }
+}
+
+export interface AppProps {
+    state:ReturnType<typeof State>;
+    navigation:ReturnType<typeof Navigation>;
+    router:InstanceType<typeof Router>;
+}
+
+/**
+ * The whole app. This does not use any browser APIs while rendering, so it
+ * can be rendered to HTML at build time. See `src/prerender.ts`.
+ *
+ * Render it in a `HeadContext` provider, for `useHead`.
+ */
+export const App:FunctionComponent<AppProps> = function App ({
+    state,
+    navigation,
+    router
+}) {
+    debug('rendering app...', state)
+
+    const pathname = state.route.value.split(/[?#]/)[0]
+    const page = navigation.page.value
+    // `null` while the first page is loading. A new query string is not
+    // a new page.
+    const href = (page?.href.split(/[?#]/)[0] ??
+        (state.navigating.value ? null : pathname))
+    const title = pageTitle(page, state.navigating.value)
+    // the route title, and the URL without a query string
+    useHead({ title, canonical: pathname })
+
+    return html`<a class="skip-link" href="#content" onClick=${skip}>
+        Skip to content
+    </a>
+
+    <main aria-busy=${state.navigating.value}>
+        <header>
+            <h1>${APP_NAME}</h1>
+
+            <${Nav} route=${pathname} router=${router} />
+            <${InstallButton} />
+            <${UserStatus} state=${state} />
+        </header>
+
+        <div id="content" tabindex="-1">
+            <${ErrorBoundary}
+                resetKey=${page?.href || state.route.value}
+                notFound=${html`<${NotFound} path=${pathname} />`}
+                onRedirect=${state._setRoute}
+            >
+                <${Content}
+                    pathname=${pathname}
+                    page=${page}
+                    state=${state}
+                    navigation=${navigation}
+                />
+            <//>
+        </div>
+    </main>
+
+    <${RouteAnnouncer}
+        href=${href}
+        title=${title}
+        target="content"
+    />
+
+    <${ConfirmDialog} />
+    <${Toasts} notifications=${state.notifications} />
+    <${UpdatePrompt} />`
+}
+
+/**
+ * Handle the skip link here, so the router does not treat it
+ * as a navigation.
+ */
+function skip (ev:MouseEvent) {
+    ev.preventDefault()
+    focusContent('content')
+}
+
+/**
+ * The title of a page, without the app name.
+ */
+export function pageTitle (page:Page|null, navigating:boolean):string {
+    if (!page) return navigating ? '' : 'Not found'
+    if (page.error instanceof NotFoundError) return 'Not found'
+    if (page.error) return 'Error'
+    const { title } = page.route
+    if (typeof title === 'function') {
+        return title({ params: page.params, data: page.data })
+    }
+    return title || ''
+}
+
+function Content ({ pathname, page, state, navigation }:{
+    pathname:string;
+    page:Page|null;
+    state:AppProps['state'];
+    navigation:AppProps['navigation'];
+}):ReturnType<typeof html> {
+    if (!page) {
+        if (state.navigating.value) {
+            return html`<div class="route-loading" role="status">
+                Loading...
+            </div>`
+        }
+
+        return html`<${NotFound} path=${pathname} />`
+    }
+
+    const { route } = page
+    const props = {
+        state,
+        params: page.params,
+        splats: page.splats,
+        data: page.data
+    }
+    const ErrorView = route.error || RouteError
+
+    const view = page.error instanceof NotFoundError ?
+        html`<${NotFound} path=${pathname} />` :
+        page.error ?
+            html`<${ErrorView} error=${page.error} retry=${navigation.reload} />` :
+            html`<${RouteView} component=${route.component} props=${props} />`
+
+    // wrap the route in its layouts, innermost layout last
+    return route.layouts.reduceRight((children, Layout) => {
+        return html`<${Layout} ...${props}>${children}<//>`
+    }, html`<div ...${{ [ROUTE_ATTR]: '' }}>${view}</div>`)
+}
+
+function UserStatus ({ state }:{
+    state:AppProps['state']
+}):ReturnType<typeof html> {
+    const user = state.user.value
+    if (!user) return html`<a class="user-status" href="/login">log in</a>`
+
+    return html`<div class="user-status">
+        <span>${user.username}</span>
+        <${Button} class="btn" onClick=${async () => {
+            await logout()
+            state._setRoute('/')
+        }}>
+            log out
+        <//>
+    </div>`
+}
+
+function Nav ({ route, router }:{
+    route:string;
+    router:AppProps['router'];
+}):ReturnType<typeof html> {
+    // load the chunk for a route when the user looks like they will visit it
+    function onIntent (ev:Event) {
+        const href = (ev.currentTarget as HTMLAnchorElement).getAttribute('href')
+        if (href) prefetch(router, href)
+    }
+
+    return html`<nav aria-label="Main navigation">
+        <ul>
+            ${routes.map(r => {
+                const active = (route === r.href ||
+                    (r.href !== '/' && route.startsWith(r.href + '/')))
+                return html`<li class="nav${active ? ' active' : ''}">
+                    <a
+                        href="${r.href}"
+                        onMouseEnter=${onIntent}
+                        onFocus=${onIntent}
+                    >${r.text}</a>
+                </li>`
+            })}
+        </ul>
+    </nav>`
+
+    // <li><a href="/contact">contact</a></li> -->
+}
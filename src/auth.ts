@@ -0,0 +1,72 @@
+import { signal } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+import type { LoginRequest, User } from '../shared/auth.js'
+import { api } from './api.js'
+import { type Guard, redirect } from './router.js'
+const debug = Debug('example:auth')
+
+/**
+ * The logged in user, or `null`.
+ */
+export const user = signal<User|null>(null)
+
+let session:Promise<User|null>|null = null
+
+/**
+ * Ask the server who is logged in. This only makes a request the first
+ * time, unless `refresh` is `true`.
+ */
+export function loadSession (refresh = false):Promise<User|null> {
+    if (session && !refresh) return session
+    session = api.session().then(res => {
+        user.value = res.user
+        return res.user
+    }, err => {
+        debug('could not load the session', err)
+        return null
+    })
+
+    return session
+}
+
+/**
+ * Log in. Rejects with an `ApiError` if the username or password is wrong.
+ */
+export async function login (body:LoginRequest):Promise<User> {
+    const res = await api.login(body)
+    if (!res.ok) throw new Error(res.error || 'Could not log in')
+    user.value = res.user
+    session = Promise.resolve(res.user)
+    return res.user
+}
+
+export async function logout ():Promise<void> {
+    await api.logout()
+    user.value = null
+    session = Promise.resolve(null)
+}
+
+/**
+ * A route guard. If nobody is logged in, go to the login route, and come
+ * back here after logging in.
+ *
+ * @example
+ * { path: '/account', guard: requireUser, component: AccountRoute }
+ */
+export const requireUser:Guard = async ({ href }) => {
+    await loadSession()
+    if (user.value) return
+    throw redirect('/login?next=' + encodeURIComponent(href))
+}
+
+/**
+ * The path to go to after logging in. Only paths on this site are allowed,
+ * so a link can't send someone to another site after they log in.
+ */
+export function nextPath (query:URLSearchParams):string {
+    const next = query.get('next')
+    if (!next || !next.startsWith('/')) return '/'
+    // `//host` and `/\host` are other sites
+    if (next[1] === '/' || next[1] === '\\') return '/'
+    return next
+}
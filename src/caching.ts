@@ -0,0 +1,61 @@
+/**
+ * Runtime caching rules for the service worker. These are set in
+ * `vite.config.ts`, and used in `src/service-worker.ts`.
+ */
+
+/**
+ * - `network-first` uses the network, and the cache when the network fails
+ *   or takes longer than `timeout`
+ * - `cache-first` uses the cache, and the network if it's not cached
+ * - `stale-while-revalidate` uses the cache, and updates it in the
+ *   background
+ * - `network-only` does not cache
+ */
+export type Strategy =
+    'network-first'|'cache-first'|'stale-while-revalidate'|'network-only'
+
+export interface CacheRule {
+    /**
+     * A path, or a prefix that ends with `*`, like `/api/*`.
+     */
+    path:string;
+    strategy:Strategy;
+    /**
+     * The cache name. Default is `api`.
+     */
+    cache?:string;
+    /**
+     * For `network-first`, milliseconds before using the cache.
+     */
+    timeout?:number;
+}
+
+/**
+ * Runtime caches start with this, so they are not deleted with the
+ * old precache.
+ */
+export const RUNTIME_PREFIX = 'runtime-'
+
+/**
+ * The first rule that matches a path.
+ */
+export function matchRule (
+    rules:CacheRule[],
+    pathname:string
+):CacheRule|null {
+    return rules.find(rule => {
+        return rule.path.endsWith('*') ?
+            pathname.startsWith(rule.path.slice(0, -1)) :
+            pathname === rule.path
+    }) || null
+}
+
+/**
+ * Only successful responses that can be stored. Responses that depend on
+ * who is asking should have `Cache-Control: no-store`, so they are never
+ * kept on the device.
+ */
+export function isCacheable (res:Response):boolean {
+    const cacheControl = res.headers.get('Cache-Control') || ''
+    return res.ok && !/no-store/i.test(cacheControl)
+}
@@ -1,20 +1,63 @@
 import { type ComponentChildren, type FunctionComponent } from 'preact'
 import { html } from 'htm/preact'
-import { useCallback } from 'preact/hooks'
+import { useCallback, useEffect, useRef } from 'preact/hooks'
 import { type Signal, useSignal } from '@preact/signals'
+import { announce, errorMessage, notify } from '../notify.js'
 import './button.css'
 
 interface ButtonProps {
-    onClick?:(ev:MouseEvent)=>void|Promise<void>;
+    /**
+     * If this returns a promise, the button is pending until it settles.
+     * The signal is aborted if the button is unmounted, or if the click is
+     * restarted (see `concurrency`).
+     */
+    onClick?:(ev:MouseEvent, signal:AbortSignal)=>void|Promise<void>;
+    /**
+     * Called if `onClick` throws or rejects. The button also dispatches a
+     * bubbling `error` event, with the error as `detail`. If there is no
+     * `onError`, and no listener calls `preventDefault`, the error is shown
+     * as a notification.
+     */
+    onError?:(err:unknown)=>void;
+    /**
+     * What to do with a click while the button is pending -- `ignore` it
+     * (the default), or abort the pending click and `restart`.
+     */
+    concurrency?:'ignore'|'restart';
+    /**
+     * Announced to screen readers while the button is pending. Default is
+     * "Loading".
+     */
+    pendingText?:string;
     isSpinning?:Signal<boolean>;
+    id?:string;
     class?:string;
     children?:ComponentChildren;
     disabled?:boolean;
+    type?:'button'|'submit'|'reset';
 }
 
 export const Button:FunctionComponent<ButtonProps> = function (props) {
-    const { isSpinning: _isSpinning, ..._props } = props
-    const isSpinning = _isSpinning || useSignal<boolean>(false)
+    const {
+        isSpinning: _isSpinning,
+        onClick: _onClick,
+        onError: _onError,
+        concurrency: _concurrency,
+        pendingText: _pendingText,
+        ..._props
+    } = props
+    const ownSpinning = useSignal<boolean>(false)
+    const isSpinning = _isSpinning || ownSpinning
+    const controller = useRef<AbortController|null>(null)
+    const button = useRef<HTMLButtonElement>(null)
+    // read the props when the click happens, not when we first render
+    const latest = useRef<ButtonProps>(props)
+    latest.current = props
+    const spinning = useRef<Signal<boolean>>(isSpinning)
+    spinning.current = isSpinning
+
+    // abort a pending click if we are unmounted
+    useEffect(() => () => controller.current?.abort(), [])
 
     const classes = (Array.from(new Set([
         'btn',
@@ -23,19 +66,73 @@ export const Button:FunctionComponent<ButtonProps> = function (props) {
     ]))).filter(Boolean).join(' ').trim()
 
     const click = useCallback(async (ev:MouseEvent) => {
-        if (props.onClick) {
-            isSpinning.value = true
-            await props.onClick(ev)
-            isSpinning.value = false
+        const {
+            onClick,
+            onError,
+            concurrency = 'ignore',
+            pendingText = 'Loading'
+        } = latest.current
+        const isSpinning = spinning.current
+        const restarted = isSpinning.peek()
+
+        if (restarted) {
+            // this also stops a second submit of a form
+            if (concurrency === 'ignore' || !controller.current) {
+                return ev.preventDefault()
+            }
+            controller.current.abort()
+        }
+
+        if (!onClick) return
+        const ctrl = controller.current = new AbortController()
+        let clear:(()=>void)|null = null
+
+        try {
+            const result = onClick(ev, ctrl.signal)
+            if (isThenable(result)) {
+                isSpinning.value = true
+                clear = announce(pendingText)
+                await result
+            }
+        } catch (err) {
+            // a restarted or unmounted click is not an error
+            if (ctrl.signal.aborted) return
+            const event = new CustomEvent('error', {
+                detail: err,
+                bubbles: true,
+                cancelable: true
+            })
+            button.current?.dispatchEvent(event)
+            if (onError) onError(err)
+            else if (!event.defaultPrevented) {
+                notify({ kind: 'error', message: errorMessage(err) })
+            }
+        } finally {
+            clear?.()
+            // a restarted click is still pending
+            if (controller.current === ctrl) {
+                controller.current = null
+                // the restart could be synchronous
+                if (clear || restarted) isSpinning.value = false
+            }
         }
     }, [])
 
+    // stay focusable while pending, so keyboard users don't lose their place
+    const pending = isSpinning.value
     return html`<button
         ...${_props}
+        ref=${button}
         onClick=${click}
-        disabled=${isSpinning.value || _props.disabled}
+        disabled=${_props.disabled}
+        aria-disabled=${pending ? 'true' : undefined}
+        aria-busy=${pending ? 'true' : undefined}
         className=${classes}
     >
         <span className="btn-content">${props.children}</span>
     </button>`
 }
+
+function isThenable (value:unknown):value is PromiseLike<unknown> {
+    return typeof (value as PromiseLike<unknown>|null)?.then === 'function'
+}
@@ -0,0 +1,32 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import {
+    type FieldOptions,
+    Description,
+    FieldError,
+    Label,
+    controlAttrs
+} from './field.js'
+
+/**
+ * A checkbox, with the label after the box.
+ */
+export const Checkbox:FunctionComponent<FieldOptions & {
+    checked?:boolean;
+}> = function Checkbox (props) {
+    const { label, description: _description, error: _error, ...rest } = props
+    const classes = (['field', 'checkbox', props.class, props.error ? 'invalid' : null])
+        .filter(Boolean).join(' ')
+
+    return html`<div class=${classes}>
+        <input
+            ...${rest}
+            ...${controlAttrs(props)}
+            type="checkbox"
+            name=${props.name || props.id}
+        />
+        <${Label} for=${props.id} required=${props.required}>${label}<//>
+        <${Description} id=${props.id} text=${props.description} />
+        <${FieldError} id=${props.id} error=${props.error} />
+    </div>`
+}
@@ -0,0 +1,150 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useEffect, useId, useMemo } from 'preact/hooks'
+import { type Signal, useSignal } from '@preact/signals'
+import type { Option } from './select.js'
+import { typeahead } from '../keyboard.js'
+import './combobox.css'
+
+/**
+ * A custom select, following the ARIA "select-only combobox" pattern.
+ *
+ * Focus stays on the combobox, and `aria-activedescendant` points at the
+ * active option. The arrow keys, Home, and End move through the options,
+ * Enter or Space picks one, and Escape closes the list. Type the start of
+ * an option to jump to it.
+ */
+export const Combobox:FunctionComponent<{
+    label:string;
+    options:Option[];
+    value:Signal<string>;
+    /**
+     * Shown when nothing is selected.
+     */
+    placeholder?:string;
+    id?:string;
+    class?:string;
+}> = function Combobox (props) {
+    const { options, value } = props
+    const generated = useId()
+    const id = props.id || generated
+    const open = useSignal<boolean>(false)
+    const active = useSignal<number>(0)
+    const findByTyping = useMemo(() => typeahead(), [])
+
+    const selectedIndex = options.findIndex(opt => opt.value === value.value)
+    const selected = options[selectedIndex]
+
+    // keep the active option visible
+    useEffect(() => {
+        if (!open.value) return
+        document.getElementById(`${id}-option-${active.value}`)
+            ?.scrollIntoView?.({ block: 'nearest' })
+    }, [open.value, active.value])
+
+    function show (index:number) {
+        active.value = Math.max(0, Math.min(index, options.length - 1))
+        open.value = true
+    }
+
+    function pick (index:number) {
+        value.value = options[index].value
+        open.value = false
+    }
+
+    function onKeyDown (ev:KeyboardEvent) {
+        const current = open.value ? active.value : Math.max(selectedIndex, 0)
+        const last = options.length - 1
+
+        switch (ev.key) {
+            case 'ArrowDown':
+                ev.preventDefault()
+                return show(open.value ? current + 1 : current)
+            case 'ArrowUp':
+                ev.preventDefault()
+                return show(open.value ? current - 1 : current)
+            case 'Home':
+                ev.preventDefault()
+                return show(0)
+            case 'End':
+                ev.preventDefault()
+                return show(last)
+            case 'Enter':
+            case ' ':
+                ev.preventDefault()
+                return open.value ? pick(active.value) : show(current)
+            case 'Escape':
+                if (open.value) ev.preventDefault()
+                open.value = false
+                return
+            case 'Tab':
+                open.value = false
+                return
+        }
+
+        if (ev.ctrlKey || ev.metaKey || ev.altKey) return
+        const index = findByTyping(
+            ev.key,
+            options.map(opt => opt.label),
+            current
+        )
+        if (index !== null) show(index)
+    }
+
+    return html`<div
+        class=${['combobox', props.class].filter(Boolean).join(' ')}
+    >
+        <span
+            id="${id}-label"
+            class="combobox-label"
+            onClick=${() => document.getElementById(id)?.focus()}
+        >
+            ${props.label}
+        </span>
+
+        <div
+            role="combobox"
+            id=${id}
+            class="combobox-button"
+            tabindex="0"
+            aria-labelledby="${id}-label"
+            aria-haspopup="listbox"
+            aria-expanded=${open.value ? 'true' : 'false'}
+            aria-controls="${id}-listbox"
+            aria-activedescendant=${open.value ?
+                `${id}-option-${active.value}` :
+                undefined}
+            onClick=${() => {
+                if (open.value) open.value = false
+                else show(Math.max(selectedIndex, 0))
+            }}
+            onKeyDown=${onKeyDown}
+            onBlur=${() => { open.value = false }}
+        >
+            ${selected ? selected.label : (props.placeholder || '')}
+        </div>
+
+        <ul
+            role="listbox"
+            id="${id}-listbox"
+            class="combobox-listbox"
+            aria-labelledby="${id}-label"
+            tabindex="-1"
+            hidden=${!open.value}
+            onMouseDown=${(ev:MouseEvent) => ev.preventDefault()}
+        >
+            ${options.map((opt, i) => {
+                return html`<li
+                    role="option"
+                    id="${id}-option-${i}"
+                    class=${i === active.value ? 'active' : undefined}
+                    aria-selected=${i === selectedIndex ? 'true' : 'false'}
+                    onClick=${() => pick(i)}
+                    onMouseEnter=${() => { active.value = i }}
+                >
+                    ${opt.label}
+                </li>`
+            })}
+        </ul>
+    </div>`
+}
@@ -0,0 +1,193 @@
+import { html } from 'htm/preact'
+import { type ComponentChildren, type FunctionComponent } from 'preact'
+import { useEffect, useId, useRef } from 'preact/hooks'
+import { type Signal, useSignal } from '@preact/signals'
+import { type Confirmation, confirmation } from '../confirm.js'
+import { Button } from './button.js'
+import './dialog.css'
+
+export interface DialogProps {
+    /**
+     * The dialog is shown while this is `true`.
+     */
+    open:Signal<boolean>;
+    title:ComponentChildren;
+    description?:ComponentChildren;
+    /**
+     * Called when the user dismisses the dialog, with the Escape key, or by
+     * clicking outside of it.
+     */
+    onClose?:()=>void;
+    role?:'dialog'|'alertdialog';
+    class?:string;
+    children?:ComponentChildren;
+}
+
+const FOCUSABLE = [
+    'a[href]',
+    'button:not([disabled])',
+    'input:not([disabled])',
+    'select:not([disabled])',
+    'textarea:not([disabled])',
+    '[tabindex]:not([tabindex="-1"])'
+].join(', ')
+
+/**
+ * A modal dialog, using the native `<dialog>` element.
+ *
+ * While it is open, focus stays inside the dialog, and the rest of the page
+ * is inert. Focus goes back to the element that opened it when it closes.
+ */
+export const Dialog:FunctionComponent<DialogProps> = function Dialog (props) {
+    const { open, role = 'dialog' } = props
+    const ref = useRef<HTMLDialogElement>(null)
+    const id = useId()
+    const isOpen = open.value
+
+    function dismiss () {
+        if (!open.peek()) return
+        open.value = false
+        props.onClose?.()
+    }
+
+    useEffect(() => {
+        const dialog = ref.current
+        if (!dialog || !isOpen) return
+
+        const opener = document.activeElement as HTMLElement|null
+        const restore = showModal(dialog)
+        const first = (dialog.querySelector('[autofocus]') ||
+            dialog.querySelector(FOCUSABLE) ||
+            dialog) as HTMLElement
+        first.focus()
+
+        return () => {
+            restore()
+            if (opener?.isConnected) opener.focus()
+        }
+    }, [isOpen])
+
+    function onKeyDown (ev:KeyboardEvent) {
+        if (ev.key === 'Escape') {
+            ev.preventDefault()
+            return dismiss()
+        }
+
+        if (ev.key !== 'Tab') return
+        const els = Array.from(ref.current!.querySelectorAll<HTMLElement>(
+            FOCUSABLE
+        ))
+        if (!els.length) return ev.preventDefault()
+
+        const first = els[0]
+        const last = els[els.length - 1]
+        const active = document.activeElement
+        if (ev.shiftKey && (active === first || active === ref.current)) {
+            ev.preventDefault()
+            last.focus()
+        } else if (!ev.shiftKey && active === last) {
+            ev.preventDefault()
+            first.focus()
+        }
+    }
+
+    // the dialog element is only the target of a click on the backdrop
+    function onClick (ev:MouseEvent) {
+        if (ev.target === ref.current) dismiss()
+    }
+
+    return html`<dialog
+        ref=${ref}
+        class=${['dialog', props.class].filter(Boolean).join(' ')}
+        role=${role}
+        aria-modal="true"
+        aria-labelledby="${id}-title"
+        aria-describedby=${props.description ? `${id}-description` : undefined}
+        tabindex="-1"
+        onKeyDown=${onKeyDown}
+        onCancel=${(ev:Event) => {
+            ev.preventDefault()
+            dismiss()
+        }}
+        onClose=${dismiss}
+        onClick=${onClick}
+    >
+        <div class="dialog-content">
+            <h2 id="${id}-title" class="dialog-title">${props.title}</h2>
+            ${props.description ?
+                html`<p id="${id}-description" class="dialog-description">
+                    ${props.description}
+                </p>` :
+                null
+            }
+            ${props.children}
+        </div>
+    </dialog>`
+}
+
+const Question:FunctionComponent<{
+    question:Confirmation
+}> = function Question ({ question }) {
+    const open = useSignal<boolean>(true)
+
+    return html`<${Dialog}
+        open=${open}
+        role="alertdialog"
+        class="confirm-dialog"
+        title=${question.title}
+        description=${question.message}
+        onClose=${() => question.resolve(false)}
+    >
+        <div class="dialog-actions">
+            <${Button} class="btn" onClick=${() => question.resolve(false)}>
+                ${question.cancelLabel || 'Cancel'}
+            <//>
+            <${Button} class="btn" onClick=${() => question.resolve(true)}>
+                ${question.confirmLabel || 'OK'}
+            <//>
+        </div>
+    <//>`
+}
+
+/**
+ * Renders the question from `confirm`. Render this once, in the app.
+ */
+export const ConfirmDialog:FunctionComponent = function ConfirmDialog () {
+    const current = confirmation.value
+    if (!current) return null
+    // a new question is a new dialog
+    return html`<${Question} key=${current} question=${current} />`
+}
+
+/**
+ * Show the dialog as a modal. If the browser can't do that, show it, and
+ * make everything else inert ourselves.
+ *
+ * @returns A function to close it again.
+ */
+function showModal (dialog:HTMLDialogElement):()=>void {
+    if (typeof dialog.showModal === 'function') {
+        if (!dialog.open) dialog.showModal()
+        return () => dialog.close()
+    }
+
+    dialog.setAttribute('open', '')
+    dialog.dataset.fallback = ''
+    const inert:HTMLElement[] = []
+    let el:HTMLElement = dialog
+    while (el.parentElement && el !== document.body) {
+        const parent:HTMLElement = el.parentElement
+        for (const sibling of Array.from(parent.children) as HTMLElement[]) {
+            if (sibling === el || sibling.inert) continue
+            sibling.inert = true
+            inert.push(sibling)
+        }
+        el = parent
+    }
+
+    return () => {
+        dialog.removeAttribute('open')
+        delete dialog.dataset.fallback
+        inert.forEach(sibling => { sibling.inert = false })
+    }
+}
@@ -0,0 +1,121 @@
+import { html } from 'htm/preact'
+import { type ComponentChildren, type FunctionComponent } from 'preact'
+import { useId } from 'preact/hooks'
+import { type Signal, useSignal } from '@preact/signals'
+import { moveIndex } from '../keyboard.js'
+import './disclosure.css'
+
+/**
+ * A button that shows and hides some content.
+ */
+export const Disclosure:FunctionComponent<{
+    summary:ComponentChildren;
+    /**
+     * Default is closed.
+     */
+    open?:Signal<boolean>;
+    class?:string;
+    children?:ComponentChildren;
+}> = function Disclosure (props) {
+    const id = useId()
+    const local = useSignal<boolean>(false)
+    const open = props.open || local
+
+    return html`<div
+        class=${['disclosure', props.class].filter(Boolean).join(' ')}
+    >
+        <button
+            type="button"
+            class="disclosure-button"
+            aria-expanded=${open.value ? 'true' : 'false'}
+            aria-controls="${id}-content"
+            onClick=${() => { open.value = !open.value }}
+        >
+            ${props.summary}
+        </button>
+
+        <div id="${id}-content" class="disclosure-content" hidden=${!open.value}>
+            ${props.children}
+        </div>
+    </div>`
+}
+
+export interface AccordionItem {
+    id:string;
+    heading:ComponentChildren;
+    content:ComponentChildren;
+}
+
+/**
+ * A list of sections that can be shown and hidden, following the ARIA
+ * accordion pattern. The up and down arrows, Home, and End move between
+ * the section headers.
+ *
+ * @param level The heading level of the section headers. Default is 3.
+ * @param multiple Allow more than one open section. Default is false.
+ */
+export const Accordion:FunctionComponent<{
+    items:AccordionItem[];
+    level?:2|3|4|5|6;
+    multiple?:boolean;
+    class?:string;
+}> = function Accordion (props) {
+    const { items, level = 3, multiple = false } = props
+    const uid = useId()
+    const expanded = useSignal<string[]>([])
+    const Heading = `h${level}`
+
+    function toggle (id:string) {
+        const isOpen = expanded.value.includes(id)
+        if (isOpen) {
+            expanded.value = expanded.value.filter(_id => _id !== id)
+        } else {
+            expanded.value = multiple ? [...expanded.value, id] : [id]
+        }
+    }
+
+    function onKeyDown (ev:KeyboardEvent) {
+        const buttons = items.map(item => {
+            return document.getElementById(`${uid}-header-${item.id}`)
+        })
+        const index = buttons.indexOf(document.activeElement as HTMLElement)
+        if (index === -1) return
+        const next = moveIndex(ev.key, index, items.length, 'vertical')
+        if (next === null) return
+        ev.preventDefault()
+        buttons[next]?.focus()
+    }
+
+    return html`<div
+        class=${['accordion', props.class].filter(Boolean).join(' ')}
+        onKeyDown=${onKeyDown}
+    >
+        ${items.map(item => {
+            const isOpen = expanded.value.includes(item.id)
+            return html`<div class="accordion-item">
+                <${Heading} class="accordion-heading">
+                    <button
+                        type="button"
+                        class="accordion-header"
+                        id="${uid}-header-${item.id}"
+                        aria-expanded=${isOpen ? 'true' : 'false'}
+                        aria-controls="${uid}-panel-${item.id}"
+                        onClick=${() => toggle(item.id)}
+                    >
+                        ${item.heading}
+                    </button>
+                <//>
+
+                <div
+                    role="region"
+                    class="accordion-panel"
+                    id="${uid}-panel-${item.id}"
+                    aria-labelledby="${uid}-header-${item.id}"
+                    hidden=${!isOpen}
+                >
+                    ${item.content}
+                </div>
+            </div>`
+        })}
+    </div>`
+}
@@ -0,0 +1,58 @@
+import { html } from 'htm/preact'
+import {
+    type ComponentChildren,
+    type FunctionComponent
+} from 'preact'
+import { useEffect, useErrorBoundary } from 'preact/hooks'
+import Debug from '@substrate-system/debug'
+import { NotFoundError, RedirectError } from '../router.js'
+import { Button } from './button.js'
+const debug = Debug('example:error-boundary')
+
+/**
+ * Catch errors thrown while rendering the children.
+ *   - A `RedirectError` calls `onRedirect`.
+ *   - A `NotFoundError` renders `notFound`.
+ *   - Anything else renders an error page with a retry button.
+ *
+ * The error is cleared when `resetKey` changes, so navigating away from a
+ * broken route works as expected.
+ */
+export const ErrorBoundary:FunctionComponent<{
+    resetKey:string;
+    notFound:ComponentChildren;
+    onRedirect:(to:string)=>void;
+    children?:ComponentChildren;
+}> = function ErrorBoundary (props) {
+    const [error, reset] = useErrorBoundary(err => {
+        debug('caught an error', err)
+    })
+
+    useEffect(() => {
+        if (error) reset()
+    }, [props.resetKey])
+
+    useEffect(() => {
+        if (error instanceof RedirectError) {
+            reset()
+            props.onRedirect(error.to)
+        }
+    }, [error])
+
+    if (!error) return html`${props.children}`
+    if (error instanceof RedirectError) return null
+    if (error instanceof NotFoundError) return html`${props.notFound}`
+
+    return html`<${ErrorPage} error=${error} retry=${reset} />`
+}
+
+export const ErrorPage:FunctionComponent<{
+    error:Error;
+    retry:()=>void;
+}> = function ErrorPage ({ error, retry }) {
+    return html`<section class="route route-error" role="alert">
+        <h2>Something went wrong</h2>
+        <p class="error-message">${error.message}</p>
+        <${Button} class="btn" onClick=${retry}>Retry<//>
+    </section>`
+}
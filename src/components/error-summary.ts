@@ -0,0 +1,52 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useEffect, useRef } from 'preact/hooks'
+import type { Form } from '../form.js'
+
+/**
+ * A list of the errors in a form, with links to each field. It takes focus
+ * when a submit fails, so screen reader and keyboard users know what
+ * went wrong.
+ */
+export const ErrorSummary:FunctionComponent<{
+    form:Form<any>;
+    title?:string;
+}> = function ErrorSummary ({ form, title = 'There is a problem' }) {
+    const ref = useRef<HTMLDivElement>(null)
+    const failed = form.failedSubmits.value
+    const errors = form.visibleErrors.value
+
+    useEffect(() => {
+        if (failed) ref.current?.focus()
+    }, [failed])
+
+    if (!failed || !errors.length) return null
+
+    return html`<div
+        class="error-summary"
+        role="alert"
+        tabindex="-1"
+        ref=${ref}
+    >
+        <h3>${title}</h3>
+        <ul>
+            ${errors.map(({ name, message }) => {
+                return html`<li>
+                    <a href="#${name}" onClick=${focusField(name)}>${message}</a>
+                </li>`
+            })}
+        </ul>
+    </div>`
+}
+
+// handle the click here, so the router does not see a navigation
+function focusField (id:string) {
+    return (ev:MouseEvent) => {
+        ev.preventDefault()
+        const el = document.getElementById(id)
+        const control = (el?.matches('fieldset') ?
+            el.querySelector('input') :
+            el) as HTMLElement|null
+        control?.focus()
+    }
+}
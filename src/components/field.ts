@@ -0,0 +1,97 @@
+import { html } from 'htm/preact'
+import { type ComponentChildren, type FunctionComponent } from 'preact'
+import './field.css'
+
+/**
+ * Props shared by all the form field components. See `FieldProps` in
+ * `src/form.ts` for the props that connect a field to a form.
+ */
+export interface FieldOptions {
+    id?:string;
+    name?:string;
+    label:string;
+    /**
+     * Help text, shown under the label.
+     */
+    description?:string;
+    error?:string;
+    required?:boolean;
+    disabled?:boolean;
+    class?:string;
+    onInput?:(ev:Event)=>void;
+    onBlur?:(ev:Event)=>void;
+}
+
+/**
+ * The IDs of the description and the error message, for `aria-describedby`.
+ */
+export function describedBy (
+    id:string|undefined,
+    { description, error }:{ description?:string, error?:string }
+):string|undefined {
+    return ([
+        description ? `${id}-description` : null,
+        error ? `${id}-error` : null
+    ]).filter(Boolean).join(' ') || undefined
+}
+
+/**
+ * The ARIA attributes for a form control.
+ */
+export function controlAttrs (props:FieldOptions):Record<string, unknown> {
+    return {
+        'aria-invalid': props.error ? 'true' : undefined,
+        'aria-describedby': describedBy(props.id, props)
+    }
+}
+
+export const Label:FunctionComponent<{
+    for?:string;
+    required?:boolean;
+    children?:ComponentChildren;
+}> = function Label (props) {
+    return html`<label for=${props.for}>
+        ${props.children}
+        ${props.required ?
+            html` <span class="required" aria-hidden="true">*</span>` :
+            null
+        }
+    </label>`
+}
+
+export const Description:FunctionComponent<{
+    id?:string;
+    text?:string;
+}> = function Description ({ id, text }) {
+    if (!text) return null
+    return html`<p class="field-description" id=${id + '-description'}>
+        ${text}
+    </p>`
+}
+
+export const FieldError:FunctionComponent<{
+    id?:string;
+    error?:string;
+}> = function FieldError ({ id, error }) {
+    if (!error) return null
+    return html`<p class="field-error" id=${id + '-error'}>${error}</p>`
+}
+
+/**
+ * A label, description, control, and error message.
+ */
+export const Field:FunctionComponent<FieldOptions & {
+    children?:ComponentChildren;
+}> = function Field (props) {
+    const classes = (['field', props.class, props.error ? 'invalid' : null])
+        .filter(Boolean).join(' ')
+
+    return html`<div class=${classes}>
+        <${Label} for=${props.id} required=${props.required}>
+            ${props.label}
+        <//>
+        <${Description} id=${props.id} text=${props.description} />
+        ${props.children}
+        <${FieldError} id=${props.id} error=${props.error} />
+    </div>`
+}
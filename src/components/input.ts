@@ -1,26 +1,28 @@
 import { html } from 'htm/preact'
 import { type FunctionComponent } from 'preact'
+import { type FieldOptions, Field, controlAttrs } from './field.js'
 import './input.css'
 
-export const Input:FunctionComponent<{
+export const Input:FunctionComponent<FieldOptions & {
     type?:string
-    label:string
-    id?:string
-    class?:string
+    value?:string
+    autocomplete?:string
+    placeholder?:string
 }> = function (props) {
+    const { label: _label, description: _description, error: _error, ...rest } = props
     const className = ([
         props.class,
         'input'
     ]).filter(Boolean).join(' ')
 
-    return html`<div class="input">
-        <label for=${props.id}>${props.label}</label>
+    return html`<${Field} ...${props} class="input">
         <input
-            ...${props}
+            ...${rest}
+            ...${controlAttrs(props)}
             class=${className}
             type=${props.type}
             id=${props.id}
-            name=${props.id}
+            name=${props.name || props.id}
         />
-    </div>`
+    <//>`
 }
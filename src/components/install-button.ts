@@ -0,0 +1,15 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { canInstall, install } from '../install.js'
+import { Button } from './button.js'
+
+/**
+ * A button to install the app, if the browser allows it.
+ */
+export const InstallButton:FunctionComponent = function InstallButton () {
+    if (!canInstall.value) return null
+
+    return html`<${Button} class="btn" onClick=${async () => { await install() }}>
+        Install app
+    <//>`
+}
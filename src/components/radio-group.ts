@@ -0,0 +1,58 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import {
+    type FieldOptions,
+    Description,
+    FieldError,
+    describedBy
+} from './field.js'
+import type { Option } from './select.js'
+
+/**
+ * Radio buttons in a `fieldset`, with the label as the `legend`. The browser
+ * handles arrow keys within the group.
+ */
+export const RadioGroup:FunctionComponent<FieldOptions & {
+    value?:string;
+    options:Option[];
+}> = function RadioGroup (props) {
+    const name = props.name || props.id
+    const classes = (['field', 'radio-group', props.class, props.error ? 'invalid' : null])
+        .filter(Boolean).join(' ')
+
+    return html`<fieldset
+        class=${classes}
+        id=${props.id}
+        aria-describedby=${describedBy(props.id, props)}
+        aria-invalid=${props.error ? 'true' : undefined}
+    >
+        <legend>
+            ${props.label}
+            ${props.required ?
+                html` <span class="required" aria-hidden="true">*</span>` :
+                null
+            }
+        </legend>
+        <${Description} id=${props.id} text=${props.description} />
+
+        ${props.options.map(opt => {
+            const id = `${props.id}-${opt.value}`
+            return html`<div class="radio">
+                <input
+                    type="radio"
+                    id=${id}
+                    name=${name}
+                    value=${opt.value}
+                    checked=${props.value === opt.value}
+                    required=${props.required}
+                    disabled=${props.disabled}
+                    onInput=${props.onInput}
+                    onBlur=${props.onBlur}
+                />
+                <label for=${id}>${opt.label}</label>
+            </div>`
+        })}
+
+        <${FieldError} id=${props.id} error=${props.error} />
+    </fieldset>`
+}
@@ -0,0 +1,68 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useEffect, useRef } from 'preact/hooks'
+import { useSignal } from '@preact/signals'
+
+/**
+ * Things a browser does on page load, that a single page app needs to do
+ * on route change:
+ *   - move focus to the new page, so keyboard users start at the top
+ *     of the content
+ *   - announce the new page to screen readers
+ *
+ * Focus and announcements are skipped for the first page, because the
+ * browser already does that. The document title is set with `useHead`.
+ *
+ * @param href The current page, or `null` while the first page is loading.
+ *   A change means a new page.
+ * @param title The title of the current page.
+ * @param target ID of the element that contains the page content.
+ */
+export const RouteAnnouncer:FunctionComponent<{
+    href:string|null;
+    title:string;
+    target:string;
+}> = function RouteAnnouncer ({ href, title, target }) {
+    const message = useSignal<string>('')
+    const prev = useRef<string|null>(null)
+
+    useEffect(() => {
+        if (prev.current !== null && href !== null) {
+            message.value = title ? `Navigated to ${title}` : 'Navigated'
+            focusContent(target)
+        }
+        prev.current = href
+    }, [href])
+
+    return html`<div
+        id="route-announcer"
+        class="visually-hidden"
+        aria-live="polite"
+        aria-atomic="true"
+    >${message.value}</div>`
+}
+
+/**
+ * Marks the route's own content, inside its layouts, so focus goes to the
+ * page heading, not a heading in a layout, like the docs sidebar.
+ */
+export const ROUTE_ATTR = 'data-route-view'
+
+/**
+ * Focus the route's first heading, or the first heading in the content, or
+ * the content element if there is no heading.
+ */
+export function focusContent (id:string):void {
+    const content = document.getElementById(id)
+    if (!content) return
+    const el = (
+        content.querySelector<HTMLElement>(
+            `[${ROUTE_ATTR}] :is(h1, h2, h3)`
+        ) ||
+        content.querySelector<HTMLElement>('h1, h2, h3') ||
+        content
+    )
+    // make it focusable without adding it to the tab order
+    if (!el.hasAttribute('tabindex')) el.setAttribute('tabindex', '-1')
+    el.focus({ preventScroll: true })
+}
@@ -0,0 +1,65 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useCallback, useEffect } from 'preact/hooks'
+import { Lazy } from '../lazy.js'
+import type {
+    RouteErrorProps,
+    RouteProps,
+    RouteView as View
+} from '../router.js'
+import { Button } from './button.js'
+import './route-view.css'
+
+/**
+ * Render a route component. If it is lazy, show a loading state while the
+ * chunk is fetched, and an error with a retry button if it fails.
+ */
+export const RouteView:FunctionComponent<{
+    component:View;
+    props:RouteProps;
+}> = function RouteView ({ component, props }) {
+    const isLazy = component instanceof Lazy
+
+    useEffect(() => {
+        if (isLazy && component.status.value === 'idle') {
+            component.load().catch(() => {})
+        }
+    }, [component])
+
+    const retry = useCallback(async () => {
+        if (component instanceof Lazy) {
+            await component.load().catch(() => {})
+        }
+    }, [component])
+
+    if (!isLazy) return html`<${component} ...${props} />`
+
+    if (component.status.value === 'error') {
+        return html`<div class="route-error" role="alert">
+            <p>This page failed to load.</p>
+            <${Button} class="btn" onClick=${retry}>Retry<//>
+        </div>`
+    }
+
+    if (component.status.value !== 'ready' || !component.component) {
+        return html`<div class="route-loading" role="status">
+            Loading...
+        </div>`
+    }
+
+    return html`<${component.component} ...${props} />`
+}
+
+/**
+ * The default view for a route whose loader threw.
+ */
+export const RouteError:FunctionComponent<RouteErrorProps> = function RouteError ({
+    error,
+    retry
+}) {
+    return html`<div class="route-error" role="alert">
+        <p>Something went wrong loading this page.</p>
+        <p class="error-message">${error.message}</p>
+        <${Button} class="btn" onClick=${retry}>Retry<//>
+    </div>`
+}
@@ -0,0 +1,40 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { type FieldOptions, Field, controlAttrs } from './field.js'
+
+export interface Option {
+    value:string;
+    label:string;
+}
+
+export const Select:FunctionComponent<FieldOptions & {
+    value?:string;
+    options:Option[];
+    /**
+     * Text for an empty first option.
+     */
+    placeholder?:string;
+}> = function Select (props) {
+    const {
+        label: _label,
+        description: _description,
+        error: _error,
+        options,
+        placeholder,
+        ...rest
+    } = props
+
+    return html`<${Field} ...${props} class="select">
+        <select
+            ...${rest}
+            ...${controlAttrs(props)}
+            class=${props.class}
+            name=${props.name || props.id}
+        >
+            ${placeholder ? html`<option value="">${placeholder}</option>` : null}
+            ${options.map(opt => {
+                return html`<option value=${opt.value}>${opt.label}</option>`
+            })}
+        </select>
+    <//>`
+}
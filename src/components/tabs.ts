@@ -0,0 +1,98 @@
+import { html } from 'htm/preact'
+import { type ComponentChildren, type FunctionComponent } from 'preact'
+import { useId } from 'preact/hooks'
+import { type Signal, useSignal } from '@preact/signals'
+import type { State } from '../state.js'
+import { moveIndex } from '../keyboard.js'
+import './tabs.css'
+
+export interface Tab {
+    id:string;
+    label:ComponentChildren;
+    panel:ComponentChildren;
+}
+
+export interface TabsProps {
+    /**
+     * The accessible name of the tab list.
+     */
+    label:string;
+    tabs:Tab[];
+    /**
+     * The ID of the selected tab. Default is the first tab.
+     */
+    selected?:Signal<string>;
+    /**
+     * Keep the selected tab in the URL, as this query parameter. This needs
+     * the app `state`.
+     */
+    param?:string;
+    state?:Pick<ReturnType<typeof State>, 'route'|'_pushRoute'>;
+    class?:string;
+}
+
+/**
+ * Tabs, following the ARIA tabs pattern. Only the selected tab is in the
+ * tab order. The arrow keys, Home, and End move between tabs, and select
+ * the tab they move to.
+ */
+export const Tabs:FunctionComponent<TabsProps> = function Tabs (props) {
+    const { tabs, param, state } = props
+    const uid = useId()
+    const local = useSignal<string>(tabs[0]?.id)
+    const selectedSignal = props.selected || local
+
+    const [pathname, search] = (state?.route.value || '').split('?')
+    const query = new URLSearchParams(search)
+    const fromUrl = (param && state) ? query.get(param) : null
+    const selected = (tabs.find(tab => tab.id === fromUrl) ?
+        fromUrl! :
+        selectedSignal.value)
+
+    function select (id:string) {
+        selectedSignal.value = id
+        if (!param || !state) return
+        query.set(param, id)
+        state._pushRoute(pathname + '?' + query.toString())
+    }
+
+    function onKeyDown (ev:KeyboardEvent) {
+        const index = tabs.findIndex(tab => tab.id === selected)
+        const next = moveIndex(ev.key, index, tabs.length)
+        if (next === null) return
+        ev.preventDefault()
+        select(tabs[next].id)
+        document.getElementById(`${uid}-tab-${tabs[next].id}`)?.focus()
+    }
+
+    return html`<div class=${['tabs', props.class].filter(Boolean).join(' ')}>
+        <div role="tablist" aria-label=${props.label} onKeyDown=${onKeyDown}>
+            ${tabs.map(tab => {
+                const isSelected = tab.id === selected
+                return html`<button
+                    type="button"
+                    role="tab"
+                    id="${uid}-tab-${tab.id}"
+                    aria-selected=${isSelected ? 'true' : 'false'}
+                    aria-controls="${uid}-panel-${tab.id}"
+                    tabindex=${isSelected ? 0 : -1}
+                    onClick=${() => select(tab.id)}
+                >
+                    ${tab.label}
+                </button>`
+            })}
+        </div>
+
+        ${tabs.map(tab => {
+            return html`<div
+                role="tabpanel"
+                id="${uid}-panel-${tab.id}"
+                aria-labelledby="${uid}-tab-${tab.id}"
+                tabindex="0"
+                hidden=${tab.id !== selected}
+            >
+                ${tab.panel}
+            </div>`
+        })}
+    </div>`
+}
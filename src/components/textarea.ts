@@ -0,0 +1,19 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { type FieldOptions, Field, controlAttrs } from './field.js'
+
+export const Textarea:FunctionComponent<FieldOptions & {
+    value?:string;
+    rows?:number;
+}> = function Textarea (props) {
+    const { label: _label, description: _description, error: _error, ...rest } = props
+
+    return html`<${Field} ...${props} class="textarea">
+        <textarea
+            ...${rest}
+            ...${controlAttrs(props)}
+            class=${props.class}
+            name=${props.name || props.id}
+        ></textarea>
+    <//>`
+}
@@ -0,0 +1,75 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useEffect, useRef } from 'preact/hooks'
+import { type Signal, useSignal } from '@preact/signals'
+import { type Notification, announcement, dismiss } from '../notify.js'
+import './toasts.css'
+
+const Toast:FunctionComponent<{
+    notification:Notification
+}> = function Toast ({ notification }) {
+    const hovered = useSignal<boolean>(false)
+    const focused = useSignal<boolean>(false)
+    const remaining = useRef<number>(notification.timeout)
+    const paused = hovered.value || focused.value
+
+    // the timer stops while the toast is hovered or focused
+    useEffect(() => {
+        if (!notification.timeout || paused) return
+        const start = Date.now()
+        const timer = setTimeout(() => dismiss(notification.id), remaining.current)
+
+        return () => {
+            clearTimeout(timer)
+            remaining.current -= Date.now() - start
+        }
+    }, [paused])
+
+    return html`<div
+        class="toast toast-${notification.kind}"
+        onMouseEnter=${() => { hovered.value = true }}
+        onMouseLeave=${() => { hovered.value = false }}
+        onFocusIn=${() => { focused.value = true }}
+        onFocusOut=${() => { focused.value = false }}
+    >
+        <p class="toast-message">${notification.message}</p>
+        <button
+            type="button"
+            class="toast-dismiss"
+            aria-label="Dismiss"
+            onClick=${() => dismiss(notification.id)}
+        >
+            ×
+        </button>
+    </div>`
+}
+
+/**
+ * Render the notifications from `notify`. Render this once, in the app.
+ *
+ * There are two live regions, so screen readers announce errors and
+ * warnings right away, and other messages when the user is idle. Both
+ * regions are always in the DOM, because a live region has to exist before
+ * its content changes. Messages from `announce` are in a third region, that
+ * is only for screen readers.
+ */
+export const Toasts:FunctionComponent<{
+    notifications:Signal<Notification[]>
+}> = function Toasts ({ notifications }) {
+    const urgent = notifications.value.filter(n => {
+        return n.kind === 'error' || n.kind === 'warning'
+    })
+    const polite = notifications.value.filter(n => !urgent.includes(n))
+
+    return html`<div class="toasts">
+        <div role="status" aria-live="polite" class="toast-region">
+            ${polite.map(n => html`<${Toast} key=${n.id} notification=${n} />`)}
+        </div>
+        <div role="alert" aria-live="assertive" class="toast-region">
+            ${urgent.map(n => html`<${Toast} key=${n.id} notification=${n} />`)}
+        </div>
+        <div role="status" aria-live="polite" class="visually-hidden">
+            ${announcement.value}
+        </div>
+    </div>`
+}
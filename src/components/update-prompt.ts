@@ -0,0 +1,29 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { applyUpdate, dismissUpdate, updateAvailable } from '../offline.js'
+import { Button } from './button.js'
+import './update-prompt.css'
+
+/**
+ * Ask the user to reload when a new version of the app is installed.
+ * Render this once, in the app.
+ *
+ * The live region is always in the DOM, so the message is announced when
+ * it appears.
+ */
+export const UpdatePrompt:FunctionComponent = function UpdatePrompt () {
+    return html`<div class="update-prompt" role="status">
+        ${updateAvailable.value ?
+            html`<div class="update-prompt-content">
+                <p>A new version is available.</p>
+                <div class="controls">
+                    <${Button} class="btn" onClick=${applyUpdate}>Reload<//>
+                    <${Button} class="btn" onClick=${dismissUpdate}>
+                        Not now
+                    <//>
+                </div>
+            </div>` :
+            null
+        }
+    </div>`
+}
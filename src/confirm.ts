@@ -0,0 +1,47 @@
+import { signal } from '@preact/signals'
+
+export interface ConfirmOptions {
+    title:string;
+    message?:string;
+    /**
+     * Default is "OK".
+     */
+    confirmLabel?:string;
+    /**
+     * Default is "Cancel".
+     */
+    cancelLabel?:string;
+}
+
+export interface Confirmation extends ConfirmOptions {
+    resolve:(ok:boolean)=>void;
+}
+
+/**
+ * The question that is waiting for an answer. `ConfirmDialog` renders it.
+ */
+export const confirmation = signal<Confirmation|null>(null)
+
+/**
+ * Ask the user a yes or no question, in a modal dialog. Resolves `true` if
+ * they confirm, and `false` if they cancel or dismiss the dialog.
+ *
+ * Asking a new question cancels the current one.
+ *
+ * @example
+ * if (await confirm({ title: 'Reset the count?' })) reset()
+ */
+export function confirm (opts:ConfirmOptions):Promise<boolean> {
+    confirmation.peek()?.resolve(false)
+
+    return new Promise<boolean>(resolve => {
+        const current:Confirmation = {
+            ...opts,
+            resolve: (ok:boolean) => {
+                if (confirmation.peek() === current) confirmation.value = null
+                resolve(ok)
+            }
+        }
+        confirmation.value = current
+    })
+}
@@ -0,0 +1,254 @@
+import { type Signal, signal } from '@preact/signals'
+import { useEffect, useMemo } from 'preact/hooks'
+import Debug from '@substrate-system/debug'
+const debug = Debug('example:events')
+
+/**
+ * Server-sent events from a netlify function, as signals. See
+ * `netlify/functions/events`.
+ *
+ * This reads the stream with `fetch`, not `EventSource`, so it can back off
+ * when the server is down.
+ */
+
+export interface StreamEvent {
+    type:string;
+    data:string;
+    /**
+     * The last event ID from the server, if it sent one.
+     */
+    lastEventId:string|null;
+}
+
+export type EventStatus = 'connecting'|'open'|'reconnecting'|'closed'
+
+export interface EventStream {
+    /**
+     * `closed` after `close()`, or if the server says the stream is not
+     * there (a 4xx response).
+     */
+    status:Signal<EventStatus>;
+    open:()=>void;
+    close:()=>void;
+    /**
+     * Listen for events of a type.
+     *
+     * @returns A function to stop listening.
+     */
+    on:(type:string, listener:(event:StreamEvent)=>void)=>()=>void;
+    /**
+     * A signal of the JSON data in the latest event of a type. Calling this
+     * again with the same type returns the same signal.
+     */
+    signal:<T>(type:string, initial:T)=>Signal<T>;
+}
+
+/**
+ * Parse a `text/event-stream`. Call the returned function with each chunk of
+ * text as it arrives.
+ */
+export function createParser (
+    onEvent:(event:StreamEvent)=>void,
+    onRetry?:(ms:number)=>void
+):(chunk:string)=>void {
+    let buffer = ''
+    let data:string[] = []
+    let type = ''
+    let lastEventId:string|null = null
+    // a `\r\n` can be split between chunks
+    let endedWithCR = false
+
+    function line (text:string) {
+        if (!text) {
+            if (data.length) {
+                onEvent({
+                    type: type || 'message',
+                    data: data.join('\n'),
+                    lastEventId
+                })
+            }
+            data = []
+            type = ''
+            return
+        }
+        if (text.startsWith(':')) return  // a comment
+
+        const i = text.indexOf(':')
+        const field = i === -1 ? text : text.slice(0, i)
+        let value = i === -1 ? '' : text.slice(i + 1)
+        if (value.startsWith(' ')) value = value.slice(1)
+
+        if (field === 'data') data.push(value)
+        else if (field === 'event') type = value
+        else if (field === 'id' && !value.includes('\0')) lastEventId = value
+        else if (field === 'retry' && /^\d+$/.test(value)) {
+            onRetry?.(Number(value))
+        }
+    }
+
+    return (chunk) => {
+        if (endedWithCR && chunk.startsWith('\n')) chunk = chunk.slice(1)
+        endedWithCR = chunk.endsWith('\r')
+
+        const lines = (buffer + chunk).split(/\r\n|\r|\n/)
+        buffer = lines.pop()!
+        lines.forEach(line)
+    }
+}
+
+/**
+ * Milliseconds to wait before a reconnect, after some failures in a row.
+ * It doubles each time, up to `max`, with some randomness so every client
+ * doesn't come back at once.
+ */
+export function backoff (
+    failures:number,
+    { min = 1000, max = 30_000 }:{ min?:number; max?:number } = {},
+    random = Math.random
+):number {
+    const delay = Math.min(max, min * 2 ** Math.max(0, failures - 1))
+    return Math.round(delay / 2 + random() * delay / 2)
+}
+
+/**
+ * Connect to a function that sends server-sent events. This reconnects
+ * when the stream ends, and sends `Last-Event-ID`, so the server can send
+ * what we missed.
+ *
+ * @param path The path after `/api/`, like `events`.
+ */
+export function eventStream (path:string, opts:{
+    /**
+     * Backoff, in milliseconds, if the connection fails.
+     */
+    min?:number;
+    max?:number;
+} = {}):EventStream {
+    const status = signal<EventStatus>('closed')
+    const listeners = new Map<string, Set<(event:StreamEvent)=>void>>()
+    const signals = new Map<string, Signal<unknown>>()
+    let lastEventId:string|null = null
+    // the server can change this, with `retry`
+    let retry = 1000
+    let controller:AbortController|null = null
+
+    function emit (event:StreamEvent) {
+        if (event.lastEventId !== null) lastEventId = event.lastEventId
+        listeners.get(event.type)?.forEach(listener => listener(event))
+    }
+
+    async function connect (abortSignal:AbortSignal) {
+        let failures = 0
+
+        while (!abortSignal.aborted) {
+            status.value = failures ? 'reconnecting' : 'connecting'
+            try {
+                const headers:Record<string, string> = {
+                    Accept: 'text/event-stream'
+                }
+                if (lastEventId) headers['Last-Event-ID'] = lastEventId
+                const res = await fetch('/api/' + path, {
+                    headers,
+                    cache: 'no-store',
+                    signal: abortSignal
+                })
+
+                // a 4xx won't get better by trying again
+                const { status: code } = res
+                if (code >= 400 && code < 500 && code !== 429) {
+                    debug('not reconnecting', code)
+                    status.value = 'closed'
+                    return
+                }
+                if (!res.ok || !res.body) throw new Error('Status ' + code)
+
+                status.value = 'open'
+                failures = 0
+                const parse = createParser(emit, ms => { retry = ms })
+                const reader = res.body
+                    .pipeThrough(new TextDecoderStream())
+                    .getReader()
+                while (true) {
+                    const { done, value } = await reader.read()
+                    if (done) break
+                    parse(value)
+                }
+
+                // the server ended the stream, which is normal
+                await sleep(retry, abortSignal)
+            } catch (err) {
+                if (abortSignal.aborted) return
+                failures++
+                const ms = backoff(failures, opts)
+                debug('connection failed, trying again in', ms, err)
+                status.value = 'reconnecting'
+                await sleep(ms, abortSignal)
+            }
+        }
+    }
+
+    function on (type:string, listener:(event:StreamEvent)=>void) {
+        if (!listeners.has(type)) listeners.set(type, new Set())
+        listeners.get(type)!.add(listener)
+        return () => { listeners.get(type)?.delete(listener) }
+    }
+
+    return {
+        status,
+        on,
+
+        open () {
+            if (controller) return
+            controller = new AbortController()
+            connect(controller.signal)
+        },
+
+        close () {
+            controller?.abort()
+            controller = null
+            status.value = 'closed'
+        },
+
+        signal<T> (type:string, initial:T):Signal<T> {
+            if (!signals.has(type)) {
+                const s = signal<unknown>(initial)
+                on(type, event => {
+                    try {
+                        s.value = JSON.parse(event.data)
+                    } catch (err) {
+                        debug('bad JSON in event', type, err)
+                    }
+                })
+                signals.set(type, s)
+            }
+
+            return signals.get(type) as Signal<T>
+        }
+    }
+}
+
+/**
+ * An `eventStream` that is open while the component is mounted.
+ */
+export function useEventStream (path:string):EventStream {
+    const stream = useMemo(() => eventStream(path), [path])
+    useEffect(() => {
+        stream.open()
+        return stream.close
+    }, [stream])
+
+    return stream
+}
+
+function sleep (ms:number, signal:AbortSignal):Promise<void> {
+    return new Promise(resolve => {
+        const timer = setTimeout(done, ms)
+        signal.addEventListener('abort', done)
+
+        function done () {
+            clearTimeout(timer)
+            signal.removeEventListener('abort', done)
+            resolve()
+        }
+    })
+}
@@ -0,0 +1,224 @@
+import {
+    type ReadonlySignal,
+    type Signal,
+    batch,
+    computed,
+    signal
+} from '@preact/signals'
+import { useMemo } from 'preact/hooks'
+import type { FieldErrors } from '../shared/schema.js'
+
+/**
+ * Form values are strings, or booleans for checkboxes.
+ */
+export type Values<V = any> = { [K in keyof V]:string|boolean }
+
+/**
+ * Returns an error message, or `null` if the value is ok. Can be async, for
+ * example to ask the server if a username is taken.
+ *
+ * The `Rule` functions in `shared/schema.ts` are validators.
+ */
+export type Validator<V extends Values<V> = Record<string, string|boolean>> = (
+    value:any,
+    values:V
+)=>string|null|Promise<string|null>
+
+export type Validators<V extends Values<V>> = {
+    [K in keyof V]?:Validator<V>|readonly Validator<V>[]
+}
+
+/**
+ * The props that connect a form field component to the form. Every field
+ * component takes these.
+ */
+export interface FieldProps {
+    id:string;
+    name:string;
+    value?:string;
+    checked?:boolean;
+    /**
+     * Only set after the field is touched, or the form is submitted.
+     */
+    error?:string;
+    onInput:(ev:Event)=>void;
+    onBlur:(ev:Event)=>void;
+}
+
+export interface FormOptions<V extends Values<V>> {
+    initial:V;
+    validators?:Validators<V>;
+    /**
+     * Called with valid values. Return field errors, for example from
+     * the server, to show them in the form.
+     */
+    onSubmit:(values:V)=>void|FieldErrors<V>|Promise<void|FieldErrors<V>>;
+}
+
+export interface Form<V extends Values<V>> {
+    values:Signal<V>;
+    touched:Signal<Partial<Record<keyof V, boolean>>>;
+    errors:Signal<FieldErrors<V>>;
+    /**
+     * `true` from the time the form is submitted until `onSubmit` is done.
+     */
+    submitting:Signal<boolean>;
+    /**
+     * The errors for touched fields, in field order.
+     */
+    visibleErrors:ReadonlySignal<{ name:string, message:string }[]>;
+    /**
+     * Incremented each time a submit fails validation, so an error summary
+     * knows when to take focus.
+     */
+    failedSubmits:Signal<number>;
+    field:(name:keyof V & string)=>FieldProps;
+    set:(name:keyof V & string, value:string|boolean)=>void;
+    /**
+     * Validate one field, or all of them. Resolves `true` if valid.
+     */
+    validate:(name?:keyof V & string)=>Promise<boolean>;
+    submit:(ev?:Event)=>Promise<boolean>;
+    reset:()=>void;
+}
+
+/**
+ * Form state as signals -- values, touched, errors, and submitting.
+ *
+ * A field is validated when it loses focus, and then on every change after
+ * that. Submitting validates every field, and calls `onSubmit` if they
+ * are all valid.
+ */
+export function createForm<V extends Values<V>> (
+    opts:FormOptions<V>
+):Form<V> {
+    const { initial, validators = {} as Validators<V> } = opts
+    const names = Object.keys(initial) as (keyof V & string)[]
+    const values = signal<V>({ ...initial })
+    const touched = signal<Partial<Record<keyof V, boolean>>>({})
+    const errors = signal<FieldErrors<V>>({})
+    const submitting = signal<boolean>(false)
+    const failedSubmits = signal<number>(0)
+    // ignore async results from stale validations
+    const runs:Partial<Record<keyof V, number>> = {}
+
+    const visibleErrors = computed(() => {
+        return names.filter(name => {
+            return touched.value[name] && errors.value[name]
+        }).map(name => ({ name, message: errors.value[name]! }))
+    })
+
+    function setError (name:keyof V, message:string|null) {
+        const next = { ...errors.value }
+        if (message) next[name] = message
+        else delete next[name]
+        errors.value = next
+    }
+
+    async function validateField (name:keyof V & string):Promise<boolean> {
+        const run = runs[name] = (runs[name] || 0) + 1
+        const fieldValidators = validators[name]
+        const list = (Array.isArray(fieldValidators) ?
+            fieldValidators :
+            (fieldValidators ? [fieldValidators] : [])) as Validator<V>[]
+
+        let message:string|null = null
+        for (const validator of list) {
+            const value = values.value[name]
+            message = await validator(
+                typeof value === 'string' ? value.trim() : value,
+                values.value
+            )
+            if (message) break
+        }
+
+        if (runs[name] !== run) return !message
+        setError(name, message)
+        return !message
+    }
+
+    async function validate (name?:keyof V & string):Promise<boolean> {
+        if (name) return validateField(name)
+        const results = await Promise.all(names.map(validateField))
+        return results.every(Boolean)
+    }
+
+    function set (name:keyof V & string, value:string|boolean) {
+        values.value = { ...values.value, [name]: value }
+        if (touched.value[name]) validateField(name)
+    }
+
+    function field (name:keyof V & string):FieldProps {
+        const value = values.value[name]
+        return {
+            id: name,
+            name,
+            ...(typeof value === 'boolean' ? { checked: value } : { value }),
+            error: touched.value[name] ? errors.value[name] : undefined,
+            onInput: (ev:Event) => {
+                const el = ev.currentTarget as HTMLInputElement
+                set(name, el.type === 'checkbox' ? el.checked : el.value)
+            },
+            onBlur: () => {
+                if (touched.value[name]) return
+                touched.value = { ...touched.value, [name]: true }
+                validateField(name)
+            }
+        }
+    }
+
+    async function submit (ev?:Event):Promise<boolean> {
+        ev?.preventDefault()
+        // don't submit twice
+        if (submitting.peek()) return false
+        submitting.value = true
+        touched.value = Object.fromEntries(names.map(name => [name, true])) as
+            Partial<Record<keyof V, boolean>>
+
+        try {
+            if (!(await validate())) {
+                failedSubmits.value++
+                return false
+            }
+
+            const serverErrors = await opts.onSubmit(values.value)
+            if (serverErrors && Object.keys(serverErrors).length) {
+                errors.value = serverErrors
+                failedSubmits.value++
+                return false
+            }
+            return true
+        } finally {
+            submitting.value = false
+        }
+    }
+
+    function reset () {
+        batch(() => {
+            values.value = { ...initial }
+            touched.value = {}
+            errors.value = {}
+        })
+    }
+
+    return {
+        values,
+        touched,
+        errors,
+        submitting,
+        visibleErrors,
+        failedSubmits,
+        field,
+        set,
+        validate,
+        submit,
+        reset
+    }
+}
+
+/**
+ * `createForm`, scoped to a component.
+ */
+export function useForm<V extends Values<V>> (opts:FormOptions<V>):Form<V> {
+    return useMemo(() => createForm(opts), [])
+}
@@ -0,0 +1,255 @@
+import { type ReadonlySignal, computed, signal } from '@preact/signals'
+import { createContext } from 'preact'
+import { useContext, useEffect, useRef } from 'preact/hooks'
+import { escape } from '../shared/escape.js'
+
+/**
+ * The document `<head>` for each route: the title, description, Open Graph
+ * and Twitter tags, canonical URL, and robots directives.
+ *
+ * Components call `useHead`. The entries are merged, so a route can
+ * change only the title, and keep the rest. The same head is rendered into
+ * the prerendered HTML, and applied to `document` on client navigation.
+ */
+
+export interface Head {
+    /**
+     * The page title, without the app name. See `titleTemplate`.
+     */
+    title?:string;
+    description?:string;
+    /**
+     * The canonical URL. A path is relative to the site origin.
+     */
+    canonical?:string;
+    /**
+     * Like `noindex, nofollow`.
+     */
+    robots?:string;
+    /**
+     * An image for link previews. A path is relative to the site origin.
+     */
+    image?:string;
+    /**
+     * More Open Graph tags, without the `og:` prefix, like
+     * `{ type: 'article' }`.
+     */
+    og?:Record<string, string>;
+    /**
+     * More Twitter tags, without the `twitter:` prefix.
+     */
+    twitter?:Record<string, string>;
+}
+
+export interface HeadOptions {
+    /**
+     * Used to make the page title. `%s` is the title, like `%s · ABC`.
+     */
+    titleTemplate?:string;
+    /**
+     * The title if no route has one.
+     */
+    defaultTitle?:string;
+    /**
+     * The first entry, for every page.
+     */
+    defaults?:Head;
+    /**
+     * The site origin, like `https://example.com`, for absolute URLs.
+     */
+    origin?:string;
+}
+
+/**
+ * A tag in the head, other than the title.
+ */
+export interface HeadTag {
+    tag:'meta'|'link';
+    attrs:Record<string, string>;
+}
+
+export interface RenderedHead {
+    title:string;
+    tags:HeadTag[];
+}
+
+export interface HeadEntry {
+    update:(head:Head)=>void;
+    remove:()=>void;
+}
+
+export interface HeadManager {
+    /**
+     * The merged head, with the title template.
+     */
+    current:ReadonlySignal<RenderedHead>;
+    /**
+     * Add an entry. Later entries take precedence.
+     */
+    add:(head:Head)=>HeadEntry;
+}
+
+/**
+ * Marks the tags that `applyHead` replaces.
+ */
+export const HEAD_ATTR = 'data-head'
+
+export const HeadContext = createContext<HeadManager|null>(null)
+
+export function createHead (opts:HeadOptions = {}):HeadManager {
+    const entries = signal<{ head:Head }[]>([])
+
+    return {
+        current: computed(() => {
+            return headTags(mergeHead([
+                opts.defaults || {},
+                ...entries.value.map(entry => entry.head)
+            ]), opts)
+        }),
+
+        add (head) {
+            let entry = { head }
+            entries.value = [...entries.value, entry]
+
+            return {
+                update (next) {
+                    const updated = { head: next }
+                    entries.value = entries.value.map(e => {
+                        return e === entry ? updated : e
+                    })
+                    entry = updated
+                },
+                remove () {
+                    entries.value = entries.value.filter(e => e !== entry)
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Merge head entries. A later entry replaces the fields it has.
+ */
+export function mergeHead (entries:Head[]):Head {
+    return entries.reduce<Head>((acc, head) => {
+        const defined = Object.fromEntries(Object.entries(head)
+            .filter(([, value]) => value !== undefined))
+
+        return {
+            ...acc,
+            ...defined,
+            og: { ...acc.og, ...head.og },
+            twitter: { ...acc.twitter, ...head.twitter }
+        }
+    }, {})
+}
+
+/**
+ * The title and tags for a head.
+ */
+export function headTags (head:Head, opts:HeadOptions = {}):RenderedHead {
+    const { titleTemplate = '%s', defaultTitle = '', origin = '' } = opts
+    const url = (path?:string) => {
+        if (!path || !origin) return path
+        return new URL(path, origin).href
+    }
+
+    const canonical = url(head.canonical)
+    const image = url(head.image)
+    const tags:HeadTag[] = []
+    const meta = (key:'name'|'property', name:string, content?:string) => {
+        if (content) tags.push({ tag: 'meta', attrs: { [key]: name, content } })
+    }
+
+    meta('name', 'description', head.description)
+    meta('name', 'robots', head.robots)
+    if (canonical) {
+        tags.push({ tag: 'link', attrs: { rel: 'canonical', href: canonical } })
+    }
+
+    const og:Record<string, string|undefined> = {
+        type: 'website',
+        title: head.title || defaultTitle,
+        description: head.description,
+        url: canonical,
+        image,
+        ...head.og
+    }
+    Object.entries(og).forEach(([name, content]) => {
+        meta('property', 'og:' + name, content)
+    })
+
+    const twitter:Record<string, string|undefined> = {
+        card: image ? 'summary_large_image' : 'summary',
+        title: head.title || defaultTitle,
+        description: head.description,
+        image,
+        ...head.twitter
+    }
+    Object.entries(twitter).forEach(([name, content]) => {
+        meta('name', 'twitter:' + name, content)
+    })
+
+    return {
+        title: head.title ?
+            titleTemplate.replace('%s', () => head.title!) :
+            defaultTitle,
+        tags
+    }
+}
+
+/**
+ * The head as HTML, for the prerendered pages.
+ */
+export function renderHead ({ title, tags }:RenderedHead):string {
+    return [`<title>${escape(title)}</title>`].concat(tags.map(({ tag, attrs }) => {
+        const attributes = Object.entries(attrs).map(([name, value]) => {
+            return ` ${name}="${escape(value)}"`
+        }).join('')
+        return `<${tag} ${HEAD_ATTR}${attributes}>`
+    })).join('\n')
+}
+
+/**
+ * Set the title, and replace the tags from the last page.
+ */
+export function applyHead (doc:Document, { title, tags }:RenderedHead):void {
+    doc.title = title
+    doc.head.querySelectorAll(`[${HEAD_ATTR}]`).forEach(el => el.remove())
+    tags.forEach(({ tag, attrs }) => {
+        const el = doc.createElement(tag)
+        el.setAttribute(HEAD_ATTR, '')
+        Object.entries(attrs).forEach(([name, value]) => {
+            el.setAttribute(name, value)
+        })
+        doc.head.appendChild(el)
+    })
+}
+
+/**
+ * Set the head while this component is mounted.
+ *
+ * The entry is added while rendering, not in an effect, so a parent comes
+ * before its children, and so it works when prerendering.
+ *
+ * @example
+ * useHead({ title: 'Contact', description: 'Send us a message.' })
+ */
+export function useHead (head:Head):void {
+    const manager = useContext(HeadContext)
+    const entry = useRef<HeadEntry|null>(null)
+    const key = useRef<string>('')
+    const next = JSON.stringify(head)
+
+    if (manager && !entry.current) {
+        entry.current = manager.add(head)
+    } else if (entry.current && key.current !== next) {
+        entry.current.update(head)
+    }
+    key.current = next
+
+    useEffect(() => () => {
+        entry.current?.remove()
+        entry.current = null
+    }, [])
+}
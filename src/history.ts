@@ -0,0 +1,154 @@
+import {
+    type ReadonlySignal,
+    type Signal,
+    batch,
+    computed,
+    signal
+} from '@preact/signals'
+
+/**
+ * One signal write, recorded in the history.
+ */
+export interface Change {
+    key:string;
+    before:unknown;
+    after:unknown;
+}
+
+export interface HistoryEntry {
+    name:string;
+    time:number;
+    changes:Change[];
+}
+
+export interface History {
+    /**
+     * Run a named action. All the signal writes in `fn` are one history
+     * entry, and one render. Actions dispatched inside `fn` are part of
+     * the same entry.
+     */
+    dispatch:(name:string, fn:()=>void)=>void;
+    undo:()=>void;
+    redo:()=>void;
+    canUndo:ReadonlySignal<boolean>;
+    canRedo:ReadonlySignal<boolean>;
+    /**
+     * Listen for actions. Returns a function to stop listening.
+     */
+    subscribe:(listener:(entry:HistoryEntry)=>void)=>()=>void;
+}
+
+/**
+ * Record actions that change the given signals, so they can be undone.
+ *
+ * @param signals The signals to track, by name. Writes to other signals
+ *   are not recorded.
+ * @param opts.limit The number of entries to keep. Default is 100.
+ */
+export function History (
+    signals:Record<string, Signal<any>>,
+    opts:{ limit?:number } = {}
+):History {
+    const limit = opts.limit ?? 100
+    const past = signal<HistoryEntry[]>([])
+    const future = signal<HistoryEntry[]>([])
+    let listeners:((entry:HistoryEntry)=>void)[] = []
+    let depth = 0
+
+    function snapshot ():Record<string, unknown> {
+        return Object.fromEntries(Object.keys(signals).map(key => {
+            return [key, signals[key].peek()]
+        }))
+    }
+
+    function dispatch (name:string, fn:()=>void) {
+        // nested actions are part of the outer entry
+        if (depth > 0) return fn()
+
+        const before = snapshot()
+        depth++
+        try {
+            batch(fn)
+        } finally {
+            depth--
+        }
+        const after = snapshot()
+
+        const changes = Object.keys(signals).filter(key => {
+            return !Object.is(before[key], after[key])
+        }).map(key => ({ key, before: before[key], after: after[key] }))
+
+        if (!changes.length) return
+
+        const entry = { name, time: Date.now(), changes }
+        past.value = [...past.value, entry].slice(-limit)
+        future.value = []
+        listeners.forEach(listener => listener(entry))
+    }
+
+    function apply (entry:HistoryEntry, which:'before'|'after') {
+        batch(() => {
+            entry.changes.forEach(change => {
+                signals[change.key].value = change[which]
+            })
+        })
+    }
+
+    return {
+        dispatch,
+
+        undo () {
+            const entry = past.value[past.value.length - 1]
+            if (!entry) return
+            apply(entry, 'before')
+            past.value = past.value.slice(0, -1)
+            future.value = [entry, ...future.value]
+        },
+
+        redo () {
+            const [entry, ...rest] = future.value
+            if (!entry) return
+            apply(entry, 'after')
+            future.value = rest
+            past.value = [...past.value, entry].slice(-limit)
+        },
+
+        canUndo: computed(() => past.value.length > 0),
+        canRedo: computed(() => future.value.length > 0),
+
+        subscribe (listener) {
+            listeners.push(listener)
+            return () => {
+                listeners = listeners.filter(l => l !== listener)
+            }
+        }
+    }
+}
+
+/**
+ * Undo with ctrl+z / cmd+z, and redo with ctrl+shift+z, cmd+shift+z,
+ * or ctrl+y. Text fields keep their own undo.
+ *
+ * @returns A function to remove the listener.
+ */
+export function undoShortcuts (history:History):()=>void {
+    function onKeydown (ev:KeyboardEvent) {
+        if (!(ev.ctrlKey || ev.metaKey) || ev.altKey) return
+        const target = ev.target as HTMLElement|null
+        if (target?.closest?.('input, textarea, select, [contenteditable]')) {
+            return
+        }
+
+        const key = ev.key.toLowerCase()
+        if (key === 'z' && !ev.shiftKey) {
+            ev.preventDefault()
+            history.undo()
+        } else if ((key === 'z' && ev.shiftKey) || key === 'y') {
+            ev.preventDefault()
+            history.redo()
+        }
+    }
+
+    window.addEventListener('keydown', onKeydown)
+    return () => window.removeEventListener('keydown', onKeydown)
+}
@@ -1,13 +1,21 @@
 import { html } from 'htm/preact'
-import { type FunctionComponent, render } from 'preact'
-import { useMemo } from 'preact/hooks'
+import { hydrate, render } from 'preact'
+import { effect } from '@preact/signals'
 import Debug from '@substrate-system/debug'
 import { State } from './state.js'
-import Router, { routes } from './routes/index.js'
-import './style.css'
+import { resetPersisted } from './persist.js'
+import type { HistoryEntry } from './history.js'
+import Router from './routes/index.js'
+import { Navigation } from './navigation.js'
+import { HEAD, App } from './app.js'
+import { HeadContext, applyHead, createHead } from './head.js'
+import { registerServiceWorker } from './offline.js'
+import { listenForInstall } from './install.js'
 
 const router = Router()
 const state = State()
+const navigation = Navigation(router, state)
+const head = createHead({ ...HEAD, origin: location.origin })
 const debug = Debug('example')
 
 // set debug logging in local env
@@ -15,53 +23,54 @@ if (isDev()) {
     localStorage.setItem('DEBUG', 'example:*,example')
     // @ts-expect-error DEV env
     window.state = state
+    // call `resetState()` in the console to clear persisted state
+    // @ts-expect-error DEV env
+    window.resetState = resetPersisted
+    // a log of every action, in the console as `actions`
+    const actions:HistoryEntry[] = []
+    // @ts-expect-error DEV env
+    window.actions = actions
+    state.history.subscribe(entry => {
+        actions.push(entry)
+        debug('action', entry.name, entry.changes)
+    })
 } else {
     localStorage.removeItem('DEBUG')
     localStorage.removeItem('debug')
 }
 
-export const Example:FunctionComponent = function Example () {
-    debug('rendering example...', state)
-
-    const match = useMemo(() => {
-        return router.match(state.route.value)
-    }, [state.route.value])
+const app = html`<${HeadContext.Provider} value=${head}>
+    <${App} state=${state} navigation=${navigation} router=${router} />
+<//>`
+const root = document.getElementById('root')!
 
-    if (!match || !match.action) {
-        return html`<div class="404">
-            <h1>404</h1>
-        </div>`
-    }
-
-    const ChildNode = match.action(match, state.route.value)
-
-    return html`<main>
-        <header>
-            <h1>ABC</h1>
+if (root.dataset.path === location.pathname) {
+    // The HTML was made at build time. Wait for the route chunk, so the
+    // first render matches it.
+    navigation.ready().then(() => {
+        hydrate(app, root)
+        updateHead()
+    })
+} else {
+    // a server that sends the HTML for a different route
+    root.replaceChildren()
+    render(app, root)
+    updateHead()
+}
 
-            <${Nav} route=${state.route.value} />
-        </header>
+// for offline use. The worker is made by the build.
+if (import.meta.env.PROD) registerServiceWorker()
+// so we can show an install button
+listenForInstall()
 
-        <${ChildNode} state=${state} />
-    </main>`
+/**
+ * Keep `document.head` in sync with the routes, after the first render,
+ * so the prerendered head is not replaced with an empty one.
+ */
+function updateHead () {
+    effect(() => applyHead(document, head.current.value))
 }
 
-render(html`<${Example} />`, document.getElementById('root')!)
-
 function isDev ():boolean {
     return !!(import.meta.env.DEV || import.meta.env.MODE === 'staging')
 }
-
-function Nav ({ route }:{ route:string }):ReturnType<typeof html> {
-    return html`<nav aria-label="Main navigation">
-        <ul>
-            ${routes.map(r => {
-                return html`<li class="nav${route === r.href ? ' active' : ''}">
-                    <a href="${r.href}">${r.text}</a>
-                </li>`
-            })}
-        </ul>
-    </nav>`
-
-    // <li><a href="/contact">contact</a></li> -->
-}
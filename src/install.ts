@@ -0,0 +1,55 @@
+import { computed, signal } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+const debug = Debug('example:install')
+
+/**
+ * The event that lets a page show the browser's install prompt. This is
+ * not in every browser, so it is not in the DOM types.
+ */
+export interface BeforeInstallPromptEvent extends Event {
+    prompt:()=>Promise<void>;
+    userChoice:Promise<{ outcome:'accepted'|'dismissed'; platform:string }>;
+}
+
+/**
+ * The saved `beforeinstallprompt` event, or `null` if the browser has not
+ * said that the app can be installed.
+ */
+export const installPrompt = signal<BeforeInstallPromptEvent|null>(null)
+
+/**
+ * `true` if we can show an install button.
+ */
+export const canInstall = computed(() => installPrompt.value !== null)
+
+/**
+ * Keep the install prompt for later, instead of letting the browser show
+ * it. Call this once, on page load.
+ */
+export function listenForInstall ():void {
+    window.addEventListener('beforeinstallprompt', ev => {
+        ev.preventDefault()
+        installPrompt.value = ev as BeforeInstallPromptEvent
+    })
+
+    window.addEventListener('appinstalled', () => {
+        debug('installed')
+        installPrompt.value = null
+    })
+}
+
+/**
+ * Show the browser's install prompt. The prompt can only be used once.
+ *
+ * @returns `true` if the user installed the app.
+ */
+export async function install ():Promise<boolean> {
+    const ev = installPrompt.value
+    if (!ev) return false
+
+    installPrompt.value = null
+    await ev.prompt()
+    const { outcome } = await ev.userChoice
+    debug('install prompt', outcome)
+    return outcome === 'accepted'
+}
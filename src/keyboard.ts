@@ -0,0 +1,70 @@
+/**
+ * Keyboard helpers for composite widgets -- tabs, accordions, and listboxes.
+ */
+
+export type Orientation = 'horizontal'|'vertical'
+
+/**
+ * The index to move to for an arrow, Home, or End key, wrapping around at
+ * either end. Returns `null` for any other key.
+ *
+ * @param key The `KeyboardEvent` key.
+ * @param index The current index.
+ * @param count The number of items.
+ * @param orientation Which arrow keys move. Default is horizontal.
+ */
+export function moveIndex (
+    key:string,
+    index:number,
+    count:number,
+    orientation:Orientation = 'horizontal'
+):number|null {
+    const [prev, next] = (orientation === 'horizontal' ?
+        ['ArrowLeft', 'ArrowRight'] :
+        ['ArrowUp', 'ArrowDown'])
+
+    switch (key) {
+        case prev: return (index - 1 + count) % count
+        case next: return (index + 1) % count
+        case 'Home': return 0
+        case 'End': return count - 1
+        default: return null
+    }
+}
+
+/**
+ * Type-ahead, like a native `<select>`. Typing characters in quick
+ * succession finds the first item that starts with them. Typing the same
+ * character again cycles through the items that start with it.
+ *
+ * @param timeout Milliseconds before the typed characters are forgotten.
+ * @returns A function that takes a key and the item labels, and returns
+ * the index to move to, or `null` if nothing matches.
+ */
+export function typeahead (timeout = 500):(
+    key:string,
+    labels:string[],
+    current:number
+)=>number|null {
+    let typed = ''
+    let timer:ReturnType<typeof setTimeout>|null = null
+
+    return function (key, labels, current) {
+        if (key.length !== 1) return null
+        if (timer) clearTimeout(timer)
+        timer = setTimeout(() => { typed = '' }, timeout)
+
+        typed += key.toLowerCase()
+        // the same letter again means "the next one"
+        const repeated = typed.split('').every(char => char === typed[0])
+        const search = repeated ? typed[0] : typed
+        const start = repeated ? current + 1 : current
+
+        for (let i = 0; i < labels.length; i++) {
+            const index = (start + i) % labels.length
+            if (labels[index].toLowerCase().startsWith(search)) return index
+        }
+
+        return null
+    }
+}
@@ -0,0 +1,58 @@
+import { type ComponentType } from 'preact'
+import { type Signal, signal } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+const debug = Debug('example:lazy')
+
+export type LazyStatus = 'idle'|'pending'|'ready'|'error'
+
+/**
+ * A component that is loaded on demand, with a dynamic `import()`. Vite
+ * creates a separate chunk for each dynamic import.
+ *
+ * The loaded component is cached, so calling `load` more than once only
+ * fetches the chunk once. If loading fails, the next call to `load`
+ * tries again.
+ */
+export class Lazy<P = any> {
+    status:Signal<LazyStatus> = signal('idle')
+    error:Signal<Error|null> = signal(null)
+    component:ComponentType<P>|null = null
+    private loader:()=>Promise<ComponentType<P>>
+    private promise:Promise<ComponentType<P>>|null = null
+
+    constructor (loader:()=>Promise<ComponentType<P>>) {
+        this.loader = loader
+    }
+
+    load ():Promise<ComponentType<P>> {
+        if (this.promise) return this.promise
+
+        this.status.value = 'pending'
+        this.error.value = null
+        this.promise = this.loader().then(component => {
+            this.component = component
+            this.status.value = 'ready'
+            return component
+        }, (err:Error) => {
+            debug('failed to load a component', err)
+            this.promise = null
+            this.error.value = err
+            this.status.value = 'error'
+            throw err
+        })
+
+        return this.promise
+    }
+}
+
+/**
+ * Create a lazy component.
+ *
+ * @example
+ * lazy(() => import('./contact.js').then(m => m.ContactRoute))
+ */
+export function lazy<P = any> (
+    loader:()=>Promise<ComponentType<P>>
+):Lazy<P> {
+    return new Lazy(loader)
+}
@@ -0,0 +1,130 @@
+import { type Signal, effect, signal, untracked } from '@preact/signals'
+import type Router from '@substrate-system/routes'
+import Debug from '@substrate-system/debug'
+import type { State } from './state.js'
+import { type FlatRoute, RedirectError } from './router.js'
+import { Lazy } from './lazy.js'
+const debug = Debug('example:navigation')
+
+/**
+ * The route that is currently rendered, and its loader data.
+ */
+export interface Page {
+    href:string;
+    route:FlatRoute;
+    params:Record<string, string>;
+    splats:string[];
+    query:URLSearchParams;
+    data:unknown;
+    error:Error|null;
+}
+
+/**
+ * Run route loaders when the route changes.
+ *
+ * The current page is kept until the next route is ready, and
+ * `state.navigating` is `true` in the meantime. If the route changes again
+ * before the loader is done, the stale loader is aborted, and its result
+ * is ignored.
+ *
+ * The route guards run first, then the loader. If a guard or a loader
+ * throws a `RedirectError`, we go to that route instead. Other errors,
+ * including `NotFoundError`, are set as the page `error`.
+ *
+ * @returns The current page (`null` if no route matches), a function to run
+ * the current route again, a function that resolves when the current
+ * navigation is done, and a function to stop listening.
+ */
+export function Navigation (
+    router:InstanceType<typeof Router>,
+    state:Pick<ReturnType<typeof State>, 'route'|'navigating'|'_setRoute'>
+):{
+    page:Signal<Page|null>;
+    reload:()=>Promise<void>;
+    ready:()=>Promise<void>;
+    dispose:()=>void;
+} {  // eslint-disable-line indent
+    const page = signal<Page|null>(null)
+    let controller:AbortController|null = null
+
+    async function go (href:string):Promise<void> {
+        controller?.abort()
+        const ctrl = controller = new AbortController()
+
+        const [pathname, search] = href.split('#')[0].split('?')
+        const match = router.match(pathname)
+        if (!match || !match.action) {
+            page.value = null
+            state.navigating.value = false
+            return
+        }
+
+        const route:FlatRoute = match.action()
+        const next = {
+            href,
+            route,
+            params: match.params,
+            splats: match.splats,
+            query: new URLSearchParams(search),
+        }
+
+        state.navigating.value = true
+        const ctx = { ...next, signal: ctrl.signal }
+        let data:unknown
+        let error:Error|null = null
+        try {
+            for (const guard of route.guards) await guard(ctx)
+            const [, _data] = await Promise.all([
+                // a failed chunk is handled by `RouteView`
+                route.component instanceof Lazy ?
+                    route.component.load().catch(() => null) :
+                    null,
+                route.loader?.(ctx)
+            ])
+            data = _data
+        } catch (err) {
+            error = err instanceof Error ? err : new Error(String(err))
+        }
+
+        if (ctrl.signal.aborted) {
+            debug('stale navigation', href)
+            return
+        }
+
+        controller = null
+        if (error instanceof RedirectError) {
+            debug('redirect', error.to)
+            return state._setRoute(error.to)
+        }
+
+        if (error) debug('loader error', error)
+        page.value = { ...next, data, error }
+        state.navigating.value = false
+    }
+
+    const dispose = effect(() => {
+        const href = state.route.value
+        // don't subscribe to any signals that a loader reads
+        untracked(() => go(href))
+    })
+
+    /**
+     * Wait for the guards, loader, and lazy chunk of the current route,
+     * including any redirects.
+     */
+    function ready ():Promise<void> {
+        let stop = () => {}
+        return new Promise<void>(resolve => {
+            stop = effect(() => {
+                if (!state.navigating.value) resolve()
+            })
+        }).finally(() => stop())
+    }
+
+    return {
+        page,
+        reload: () => go(state.route.peek()),
+        ready,
+        dispose
+    }
+}
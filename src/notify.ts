@@ -0,0 +1,89 @@
+import { computed, signal } from '@preact/signals'
+
+export type NotificationKind = 'info'|'success'|'warning'|'error'
+
+export interface Notification {
+    id:number;
+    kind:NotificationKind;
+    message:string;
+    /**
+     * Milliseconds before it is dismissed. `0` means it stays until the
+     * user dismisses it.
+     */
+    timeout:number;
+}
+
+/**
+ * Keep this many notifications. Older ones are dropped.
+ */
+const MAX = 5
+
+/**
+ * The notifications that are showing, oldest first. `Toasts` renders them.
+ */
+export const notifications = signal<Notification[]>([])
+
+let nextId = 0
+
+/**
+ * Show a notification. Errors stay until they are dismissed, other kinds
+ * go away after 5 seconds.
+ *
+ * @returns The notification ID, for `dismiss`.
+ */
+export function notify ({
+    kind = 'info',
+    message,
+    timeout
+}:{
+    kind?:NotificationKind;
+    message:string;
+    timeout?:number;
+}):number {
+    const id = ++nextId
+    notifications.value = [...notifications.value, {
+        id,
+        kind,
+        message,
+        timeout: timeout ?? (kind === 'error' ? 0 : 5000)
+    }].slice(-MAX)
+
+    return id
+}
+
+const announcements = signal<{ id:number, message:string }[]>([])
+
+/**
+ * A message for screen readers only, like "Loading". `Toasts` renders it in
+ * a polite live region. This is the newest message that is not cleared yet.
+ */
+export const announcement = computed<string>(() => {
+    return announcements.value.at(-1)?.message ?? ''
+})
+
+/**
+ * Announce a message to screen readers, until it is cleared. Each caller
+ * clears only its own message, so overlapping messages are not lost.
+ *
+ * @returns A function that clears this message.
+ */
+export function announce (message:string):()=>void {
+    const id = ++nextId
+    announcements.value = [...announcements.value, { id, message }]
+
+    return () => {
+        announcements.value = announcements.value.filter(a => a.id !== id)
+    }
+}
+
+export function dismiss (id:number):void {
+    notifications.value = notifications.value.filter(n => n.id !== id)
+}
+
+/**
+ * A message for an error of unknown type.
+ */
+export function errorMessage (err:unknown):string {
+    if (err instanceof Error && err.message) return err.message
+    return typeof err === 'string' ? err : 'Something went wrong'
+}
@@ -0,0 +1,75 @@
+import { signal } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+const debug = Debug('example:offline')
+
+/**
+ * `true` when a new version of the app is installed, and is waiting for
+ * this page to reload. `UpdatePrompt` asks the user.
+ */
+export const updateAvailable = signal<boolean>(false)
+
+let waiting:ServiceWorker|null = null
+let updating = false
+
+/**
+ * Install the service worker, so the app works offline, and listen for
+ * new versions. See `src/service-worker.ts`.
+ *
+ * @param url The worker script that the build makes.
+ */
+export async function registerServiceWorker (url = '/sw.js'):Promise<void> {
+    if (!('serviceWorker' in navigator)) return
+
+    let reg:ServiceWorkerRegistration
+    try {
+        reg = await navigator.serviceWorker.register(url)
+    } catch (err) {
+        debug('could not register the service worker', err)
+        return
+    }
+
+    // the first install is not an update
+    const isUpdate = () => !!navigator.serviceWorker.controller
+
+    // found in an earlier visit
+    if (reg.waiting && isUpdate()) found(reg.waiting)
+
+    reg.addEventListener('updatefound', () => {
+        const worker = reg.installing
+        worker?.addEventListener('statechange', () => {
+            if (worker.state === 'installed' && isUpdate()) found(worker)
+        })
+    })
+
+    // the new worker took over, because the user said to
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+        if (updating) location.reload()
+    })
+
+    // a tab can be open for days
+    setInterval(() => {
+        reg.update().catch(err => debug('update check failed', err))
+    }, 60 * 60 * 1000)
+}
+
+/**
+ * Use the new version. The page reloads when it takes over.
+ */
+export function applyUpdate ():void {
+    if (!waiting) return
+    updating = true
+    waiting.postMessage({ type: 'SKIP_WAITING' })
+}
+
+/**
+ * Keep the current version until the next visit.
+ */
+export function dismissUpdate ():void {
+    updateAvailable.value = false
+}
+
+function found (worker:ServiceWorker) {
+    debug('a new version is ready')
+    waiting = worker
+    updateAvailable.value = true
+}
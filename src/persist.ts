@@ -0,0 +1,353 @@
+import { type Signal, effect } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+const debug = Debug('example:persist')
+
+/**
+ * Somewhere to keep serialized state.
+ */
+export interface StorageAdapter {
+    name:string;
+    get (key:string):Promise<string|null>;
+    set (key:string, value:string):Promise<void>;
+    remove (key:string):Promise<void>;
+}
+
+/**
+ * A migration takes the stored value from the previous version, and returns
+ * the value for its own version.
+ */
+export type Migration = (prev:any)=>any
+
+export interface PersistOptions {
+    /**
+     * The storage key.
+     */
+    key:string;
+    /**
+     * The current version of the stored shape. Increase this when the shape
+     * changes, and add a migration for the new version.
+     */
+    version:number;
+    /**
+     * Migrations, keyed by the version they migrate *to*. To go from
+     * version 1 to version 3, we run `migrations[2]`, then `migrations[3]`.
+     */
+    migrations?:Record<number, Migration>;
+    /**
+     * Defaults to `localStorage`.
+     */
+    storage?:StorageAdapter;
+    /**
+     * Wait this many milliseconds after the last change before writing.
+     * Default is 300.
+     */
+    debounce?:number;
+    /**
+     * Keep other tabs in sync. Default is true.
+     */
+    sync?:boolean;
+}
+
+export interface Persisted {
+    key:string;
+    /**
+     * Resolves after the stored value has been read.
+     */
+    ready:Promise<void>;
+    /**
+     * Write any pending change now.
+     */
+    flush:()=>Promise<void>;
+    /**
+     * Delete the stored value, and reset the signal to its initial value.
+     */
+    clear:()=>Promise<void>;
+    dispose:()=>void;
+}
+
+interface Stored {
+    version:number;
+    value:unknown;
+}
+
+const registry = new Set<Persisted>()
+
+/**
+ * Try a failed write this many times, waiting twice as long each time.
+ */
+const MAX_RETRIES = 5
+const MAX_RETRY_DELAY = 30_000
+
+/**
+ * Store a signal. The stored value is read once, then the signal is written
+ * to storage whenever it changes.
+ *
+ * @example
+ * persist(state.count, { key: 'count', version: 1 })
+ */
+export function persist<T> (sig:Signal<T>, opts:PersistOptions):Persisted {
+    const {
+        key,
+        version,
+        migrations = {},
+        storage = localStorageAdapter,
+        debounce = 300,
+        sync = true
+    } = opts
+    const initial = sig.peek()
+    let applying = false
+    let timer:ReturnType<typeof setTimeout>|null = null
+    let stopEffect:(()=>void)|null = null
+    let lastWritten:string|null = null
+    let failures = 0
+    // the stored value is from a newer version of the app, so don't
+    // overwrite it
+    let newer = false
+
+    const channel = (sync && typeof BroadcastChannel !== 'undefined') ?
+        new BroadcastChannel('persist:' + key) :
+        null
+
+    function apply (value:T) {
+        applying = true
+        sig.value = value
+        applying = false
+    }
+
+    /**
+     * Parse a stored string, and migrate it to the current version.
+     */
+    function parse (str:string|null):{ value:T }|null {
+        if (str === null) return null
+        let stored:Stored
+        try {
+            stored = JSON.parse(str)
+        } catch (_err) {
+            debug('bad JSON in storage', key)
+            return null
+        }
+
+        if (stored.version > version) {
+            debug('stored version is newer than the app', key)
+            newer = true
+            return null
+        }
+
+        let value = stored.value
+        for (let v = stored.version + 1; v <= version; v++) {
+            if (!migrations[v]) {
+                debug('missing migration', key, v)
+                return null
+            }
+            value = migrations[v](value)
+        }
+
+        return { value: value as T }
+    }
+
+    async function write () {
+        timer = null
+        if (newer) return
+        const str = JSON.stringify({ version, value: sig.peek() })
+        if (str === lastWritten) return
+        await storage.set(key, str)
+        lastWritten = str
+        channel?.postMessage(str)
+    }
+
+    /**
+     * Write after `delay`. If the write fails, try again later.
+     */
+    function schedule (delay:number) {
+        if (timer) clearTimeout(timer)
+        timer = setTimeout(() => {
+            write().then(() => {
+                failures = 0
+            }, err => {
+                debug('could not write storage', key, err)
+                if (++failures > MAX_RETRIES) return
+                schedule(Math.min(debounce * 2 ** failures, MAX_RETRY_DELAY))
+            })
+        }, delay)
+    }
+
+    async function flush () {
+        if (!timer) return
+        clearTimeout(timer)
+        await write()
+    }
+
+    // write a pending change before the tab is closed
+    function onHide (ev:Event) {
+        if (ev.type === 'visibilitychange' &&
+            document.visibilityState !== 'hidden') return
+        flush().catch(err => debug('could not write storage', key, err))
+    }
+
+    // another tab changed the value
+    function onRemote (str:string|null) {
+        lastWritten = str
+        const parsed = parse(str)
+        apply(parsed ? parsed.value : initial)
+    }
+
+    function onMessage (ev:MessageEvent<string|null>) {
+        onRemote(ev.data)
+    }
+
+    // fallback for browsers without BroadcastChannel
+    function onStorage (ev:StorageEvent) {
+        if (ev.key === key) onRemote(ev.newValue)
+    }
+
+    channel?.addEventListener('message', onMessage)
+    const useStorageEvent = (sync && !channel &&
+        storage === localStorageAdapter && typeof window !== 'undefined')
+    if (useStorageEvent) window.addEventListener('storage', onStorage)
+    const isBrowser = typeof document !== 'undefined'
+    if (isBrowser) {
+        window.addEventListener('pagehide', onHide)
+        document.addEventListener('visibilitychange', onHide)
+    }
+
+    const ready = storage.get(key).then(str => {
+        const parsed = parse(str)
+        // don't clobber a change made while we were reading
+        if (parsed && sig.peek() === initial) apply(parsed.value)
+        lastWritten = str
+    }).catch(err => {
+        debug('could not read storage', key, err)
+    }).then(() => {
+        stopEffect = effect(() => {
+            const _value = sig.value  // subscribe
+            if (applying) return
+            failures = 0
+            schedule(debounce)
+        })
+    })
+
+    const persisted:Persisted = {
+        key,
+        ready,
+        flush,
+
+        async clear () {
+            if (timer) clearTimeout(timer)
+            timer = null
+            await storage.remove(key)
+            lastWritten = null
+            newer = false
+            apply(initial)
+            channel?.postMessage(null)
+        },
+
+        dispose () {
+            if (timer) clearTimeout(timer)
+            stopEffect?.()
+            channel?.close()
+            if (useStorageEvent) window.removeEventListener('storage', onStorage)
+            if (isBrowser) {
+                window.removeEventListener('pagehide', onHide)
+                document.removeEventListener('visibilitychange', onHide)
+            }
+            registry.delete(persisted)
+        }
+    }
+
+    registry.add(persisted)
+    return persisted
+}
+
+/**
+ * Clear all persisted state. Useful in development.
+ */
+export async function resetPersisted ():Promise<void> {
+    await Promise.all([...registry].map(p => p.clear()))
+}
+
+export const localStorageAdapter:StorageAdapter = {
+    name: 'localStorage',
+
+    async get (key) {
+        return localStorage.getItem(key)
+    },
+
+    async set (key, value) {
+        localStorage.setItem(key, value)
+    },
+
+    async remove (key) {
+        localStorage.removeItem(key)
+    }
+}
+
+/**
+ * Keep state in IndexedDB, for larger values.
+ */
+export function indexedDBAdapter (dbName = 'app-state'):StorageAdapter {
+    const STORE = 'state'
+    let db:Promise<IDBDatabase>|null = null
+
+    function open ():Promise<IDBDatabase> {
+        if (db) return db
+        db = new Promise((resolve, reject) => {
+            const req = indexedDB.open(dbName, 1)
+            req.onupgradeneeded = () => req.result.createObjectStore(STORE)
+            req.onsuccess = () => resolve(req.result)
+            req.onerror = () => reject(req.error)
+        })
+        return db
+    }
+
+    async function run<R> (
+        mode:IDBTransactionMode,
+        fn:(store:IDBObjectStore)=>IDBRequest<R>
+    ):Promise<R> {
+        const store = (await open()).transaction(STORE, mode).objectStore(STORE)
+        return new Promise((resolve, reject) => {
+            const req = fn(store)
+            req.onsuccess = () => resolve(req.result)
+            req.onerror = () => reject(req.error)
+        })
+    }
+
+    return {
+        name: 'indexedDB',
+
+        async get (key) {
+            const value = await run('readonly', store => store.get(key))
+            return value ?? null
+        },
+
+        async set (key, value) {
+            await run('readwrite', store => store.put(value, key))
+        },
+
+        async remove (key) {
+            await run('readwrite', store => store.delete(key))
+        }
+    }
+}
+
+/**
+ * Keep state in memory. For tests.
+ */
+export function memoryAdapter (
+    data:Map<string, string> = new Map()
+):StorageAdapter {
+    return {
+        name: 'memory',
+
+        async get (key) {
+            return data.get(key) ?? null
+        },
+
+        async set (key, value) {
+            data.set(key, value)
+        },
+
+        async remove (key) {
+            data.delete(key)
+        }
+    }
+}
@@ -0,0 +1,63 @@
+import { html } from 'htm/preact'
+import { renderToString } from 'preact-render-to-string'
+import { State } from './state.js'
+import Router, { routes, table } from './routes/index.js'
+import { sitemapEntries, staticPaths } from './router.js'
+import { Navigation } from './navigation.js'
+import { HEAD, App } from './app.js'
+import { HeadContext, createHead, renderHead } from './head.js'
+
+/**
+ * Render routes to HTML at build time. The build loads this module in node,
+ * with Vite, and calls `prerender` for each of the `paths`. It writes the
+ * `sitemap`, and the manifest shortcuts from the `nav`, too. See
+ * `build/prerender.ts`.
+ */
+
+export const paths = staticPaths(table)
+
+export const sitemap = sitemapEntries(table)
+
+/**
+ * The main navigation, for shortcuts in the web app manifest.
+ */
+export const nav = routes
+
+/**
+ * The head for the empty page, `app.html`, so it has the app name until the
+ * route is rendered.
+ */
+export const shellHead = renderHead(createHead(HEAD).current.value)
+
+export interface RenderedPage {
+    html:string;
+    /**
+     * The title and other tags for `<head>`.
+     */
+    head:string;
+}
+
+/**
+ * Render the app at a path, after its lazy chunk is loaded.
+ *
+ * @param opts.origin The site origin, for the canonical URL.
+ */
+export async function prerender (href:string, opts:{
+    origin?:string
+} = {}):Promise<RenderedPage> {
+    const router = Router()
+    const state = State(href)
+    const navigation = Navigation(router, state)
+    const head = createHead({ ...HEAD, origin: opts.origin })
+    await navigation.ready()
+
+    try {
+        const body = renderToString(html`<${HeadContext.Provider} value=${head}>
+            <${App} state=${state} navigation=${navigation} router=${router} />
+        <//>`)
+
+        return { html: body, head: renderHead(head.current.value) }
+    } finally {
+        navigation.dispose()
+    }
+}
@@ -0,0 +1,380 @@
+import Router from '@substrate-system/routes'
+import { type ComponentChildren, type ComponentType } from 'preact'
+import type { State } from './state.js'
+import { Lazy } from './lazy.js'
+
+/**
+ * Declarative routes. A route table is a tree of `RouteDef`. It is used to
+ * create the router, the navigation, and a typed `link` function.
+ */
+
+/**
+ * The param names in a path. A splat (`*`) is the `splat` param.
+ */
+export type ParamNames<P extends string> =
+    P extends `${infer Head}/${infer Rest}` ?
+        ParamNames<Head>|ParamNames<Rest> :
+        P extends `:${infer Param}` ?
+            Param :
+            P extends '*' ? 'splat' : never
+
+/**
+ * Get the params from a path.
+ */
+export type PathParams<P extends string> =
+    string extends P ?
+        Record<string, string> :
+        { [K in ParamNames<P>]:string }
+
+export interface RouteProps<P extends string = string, D = unknown> {
+    state:ReturnType<typeof State>;
+    params:PathParams<P>;
+    splats:string[];
+    /**
+     * The value returned by the route's `loader`.
+     */
+    data:D;
+}
+
+export interface LoaderContext<P extends string = string> {
+    /**
+     * The URL being loaded, with the query string.
+     */
+    href:string;
+    params:PathParams<P>;
+    splats:string[];
+    query:URLSearchParams;
+    /**
+     * Aborted if the route changes before the loader is done.
+     */
+    signal:AbortSignal;
+}
+
+/**
+ * Get data for a route, before the route is rendered.
+ */
+export type Loader<P extends string = string, D = unknown> =
+    (ctx:LoaderContext<P>)=>D|Promise<D>
+
+/**
+ * Runs before a route is loaded. Throw `redirect()` to go somewhere else
+ * instead.
+ */
+export type Guard = (ctx:LoaderContext)=>void|Promise<void>
+
+/**
+ * Rendered in place of a route if its loader throws.
+ */
+export interface RouteErrorProps {
+    error:Error;
+    retry:()=>void;
+}
+
+export interface LayoutProps extends RouteProps {
+    children?:ComponentChildren;
+}
+
+export type RouteView = ComponentType<RouteProps<any>>|Lazy<any>
+
+export type RouteTitle = string|((props:{
+    params:Record<string, string>;
+    data:any;
+})=>string)
+
+export interface SitemapOptions {
+    /**
+     * When the page last changed, like `2025-01-31`.
+     */
+    lastmod?:string;
+    /**
+     * From 0 to 1, relative to the other pages on this site.
+     */
+    priority?:number;
+    changefreq?:'always'|'hourly'|'daily'|'weekly'|'monthly'|'yearly'|'never';
+    /**
+     * For a route with params, the params for each URL, like
+     * `[{ page: 'routes' }, { page: 'layouts' }]`.
+     */
+    params?:Record<string, string>[];
+}
+
+export type SitemapEntry = Omit<SitemapOptions, 'params'> & { path:string }
+
+export interface RouteDef {
+    /**
+     * Path, relative to the parent route. Use `:name` for params, and `*`
+     * for a splat.
+     */
+    path:string;
+    /**
+     * The view. Use `lazy` to load it in a separate chunk.
+     */
+    component?:RouteView;
+    /**
+     * The page title. A function gets the params and the loader data.
+     */
+    title?:RouteTitle;
+    /**
+     * Get data before rendering. The result is the `data` prop.
+     */
+    loader?:Loader<any, any>;
+    /**
+     * Shown if the loader throws.
+     */
+    error?:ComponentType<RouteErrorProps>;
+    /**
+     * Runs before this route and all its children, for example to check
+     * that the user is logged in.
+     */
+    guard?:Guard;
+    /**
+     * Wraps this route and all its children.
+     */
+    layout?:ComponentType<LayoutProps>;
+    /**
+     * Text for a link in the main navigation. Routes without this
+     * are not in the nav.
+     */
+    nav?:string;
+    /**
+     * Set `false` to not render this route and its children to HTML at
+     * build time. Routes with params, a loader, or a guard are never
+     * prerendered.
+     */
+    prerender?:boolean;
+    /**
+     * Options for this route in `sitemap.xml`, or `false` to leave out this
+     * route and its children. Routes with a guard are left out. A route
+     * with params is only in the sitemap if it lists the `params`.
+     */
+    sitemap?:false|SitemapOptions;
+    children?:readonly RouteDef[];
+}
+
+/**
+ * A component for the route at path `P`, with loader data `D`.
+ */
+export type RouteComponent<P extends string, D = unknown> =
+    ComponentType<RouteProps<P, D>>
+
+type Join<A extends string, B extends string> =
+    B extends '' ? (A extends '' ? '/' : A) :
+        A extends '' | '/' ? B :
+            `${A}${B}`
+
+/**
+ * The full paths in a route table.
+ */
+export type RoutePaths<T, Prefix extends string = ''> =
+    T extends readonly (infer R)[] ?
+        R extends { path:infer P extends string } ?
+            | Join<Prefix, P>
+            | (R extends { children:infer C } ?
+                RoutePaths<C, Join<Prefix, P>> :
+                never) :
+            never :
+        never
+
+/**
+ * A route table, flattened, with the full path and the layouts
+ * for each route.
+ */
+export interface FlatRoute {
+    path:string;
+    component:RouteView;
+    title?:RouteTitle;
+    loader?:Loader<any, any>;
+    error?:ComponentType<RouteErrorProps>;
+    layouts:ComponentType<LayoutProps>[];
+    /**
+     * The guards for this route and its parents, outermost first.
+     */
+    guards:Guard[];
+}
+
+export interface NavLink {
+    href:string;
+    text:string;
+}
+
+export function flatten (
+    table:readonly RouteDef[],
+    prefix:string = '',
+    layouts:ComponentType<LayoutProps>[] = [],
+    guards:Guard[] = []
+):FlatRoute[] {
+    return table.flatMap(def => {
+        const path = join(prefix, def.path)
+        const _layouts = def.layout ? [...layouts, def.layout] : layouts
+        const _guards = def.guard ? [...guards, def.guard] : guards
+        const self:FlatRoute[] = def.component ?
+            [{
+                path,
+                component: def.component,
+                title: def.title,
+                loader: def.loader,
+                error: def.error,
+                layouts: _layouts,
+                guards: _guards
+            }] :
+            []
+
+        return self.concat(
+            flatten(def.children || [], path, _layouts, _guards)
+        )
+    })
+}
+
+/**
+ * The links for the main navigation.
+ */
+export function navLinks (
+    table:readonly RouteDef[],
+    prefix:string = ''
+):NavLink[] {
+    return table.flatMap(def => {
+        const href = join(prefix, def.path)
+        const self = def.nav ? [{ href, text: def.nav }] : []
+        return self.concat(navLinks(def.children || [], href))
+    })
+}
+
+/**
+ * The paths that can be rendered to HTML at build time. These are the
+ * routes that look the same for everyone: no params or splat, no loader,
+ * no guard on the route or its parents, and not `prerender: false`.
+ */
+export function staticPaths (
+    table:readonly RouteDef[],
+    prefix:string = ''
+):string[] {
+    return table.flatMap(def => {
+        if (def.prerender === false || def.guard) return []
+        const path = join(prefix, def.path)
+        const isStatic = def.component && !def.loader && !hasParams(path)
+        const self = isStatic ? [path] : []
+        return self.concat(staticPaths(def.children || [], path))
+    })
+}
+
+/**
+ * The URLs for `sitemap.xml`, as paths.
+ */
+export function sitemapEntries (
+    table:readonly RouteDef[],
+    prefix:string = ''
+):SitemapEntry[] {
+    return table.flatMap(def => {
+        if (def.sitemap === false || def.guard) return []
+        const path = join(prefix, def.path)
+        const { params, ...opts } = def.sitemap || {}
+        const paths = (!def.component ? [] :
+            hasParams(path) ? (params || []).map(p => fillPath(path, p)) :
+                [path])
+
+        return paths.map<SitemapEntry>(path => ({ path, ...opts }))
+            .concat(sitemapEntries(def.children || [], path))
+    })
+}
+
+/**
+ * Create a router from a route table. The action for each route returns
+ * the `FlatRoute`.
+ */
+export function createRouter (
+    table:readonly RouteDef[]
+):InstanceType<typeof Router> {
+    const router = new Router()
+    flatten(table).forEach(route => {
+        router.addRoute(route.path, () => route)
+    })
+    return router
+}
+
+/**
+ * Throw this from a loader or a route component to render the
+ * not-found route.
+ */
+export class NotFoundError extends Error {
+    constructor (message = 'Not found') {
+        super(message)
+        this.name = 'NotFoundError'
+    }
+}
+
+/**
+ * Throw this from a loader or a route component to go to a different route.
+ */
+export class RedirectError extends Error {
+    to:string
+
+    constructor (to:string) {
+        super('Redirect to ' + to)
+        this.name = 'RedirectError'
+        this.to = to
+    }
+}
+
+export function notFound (message?:string):never {
+    throw new NotFoundError(message)
+}
+
+export function redirect (to:string):never {
+    throw new RedirectError(to)
+}
+
+/**
+ * Start loading the chunk for a lazy route, so it is ready before
+ * navigating there.
+ */
+export function prefetch (
+    router:InstanceType<typeof Router>,
+    href:string
+):void {
+    const match = router.match(href.split('?')[0])
+    const route:FlatRoute|undefined = match?.action?.()
+    if (route?.component instanceof Lazy) {
+        // errors are shown if we navigate to the route
+        route.component.load().catch(() => {})
+    }
+}
+
+/**
+ * Create a `link` function that only accepts paths from the route table `T`.
+ * This only uses the table type, so it can be created without importing
+ * the route components.
+ *
+ * @example
+ * const link = createLink<typeof table>()
+ * link('/docs/:page', { page: 'routing' })  // => '/docs/routing'
+ */
+export function createLink<T extends readonly RouteDef[]> () {
+    return function link<P extends RoutePaths<T>> (
+        path:P,
+        ...args:NoInfer<
+            keyof PathParams<P> extends never ? [] : [PathParams<P>]
+        >
+    ):string {
+        return fillPath(path, (args[0] || {}) as Record<string, string>)
+    }
+}
+
+function hasParams (path:string):boolean {
+    return path.split('/').some(s => s.startsWith(':') || s === '*')
+}
+
+function fillPath (path:string, params:Record<string, string>):string {
+    return path.split('/').map(segment => {
+        if (segment.startsWith(':')) {
+            return encodeURIComponent(params[segment.slice(1)])
+        }
+        if (segment === '*') return params.splat
+        return segment
+    }).join('/')
+}
+
+function join (prefix:string, path:string):string {
+    if (!path) return prefix || '/'
+    if (!prefix || prefix === '/') return path
+    return prefix + path
+}
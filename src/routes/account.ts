@@ -0,0 +1,22 @@
+import { html } from 'htm/preact'
+import type { AccountResponse } from '../../shared/api.js'
+import type { RouteComponent } from '../router.js'
+
+/**
+ * Only for logged in users. See the `guard` in the route table.
+ */
+export const AccountRoute:RouteComponent<
+    '/account',
+    AccountResponse
+> = function AccountRoute ({ data }) {
+    return html`<div class="route account">
+        <h2>account</h2>
+
+        <dl>
+            <dt>Name</dt>
+            <dd>${data.user.name}</dd>
+            <dt>Username</dt>
+            <dd>${data.user.username}</dd>
+        </dl>
+    </div>`
+}
@@ -1,38 +1,97 @@
 import { html } from 'htm/preact'
-import { useCallback } from 'preact/hooks'
 import { type FunctionComponent } from 'preact'
 import Debug from '@substrate-system/debug'
 import { Button } from '../components/button'
 import { Input } from '../components/input.js'
+import { Textarea } from '../components/textarea.js'
+import { ErrorSummary } from '../components/error-summary.js'
 import { useSignal } from '@preact/signals'
+import { type ContactRequest, contactSchema } from '../../shared/contact.js'
+import { ApiError, api } from '../api.js'
+import { useForm } from '../form.js'
+import { useHead } from '../head.js'
 import './contact.css'
 const debug = Debug('example:view:contact')
 
+type Status = 'idle'|'success'|'error'
+
 export const ContactRoute:FunctionComponent = function ContactRoute () {
-    const isResolving = useSignal<boolean>(false)
+    const status = useSignal<Status>('idle')
+    useHead({ description: 'Send us a message.' })
+
+    const form = useForm<ContactRequest>({
+        initial: { name: '', email: '', message: '' },
+        // the same rules the server uses
+        validators: contactSchema,
+        onSubmit: async (values) => {
+            debug('submit', values)
+            status.value = 'idle'
+            try {
+                await api.contact(values)
+                form.reset()
+                status.value = 'success'
+            } catch (err) {
+                debug('error submitting', err)
+                if (err instanceof ApiError && err.status === 422) {
+                    return err.body?.errors
+                }
+                status.value = 'error'
+            }
+        }
+    })
 
-    const submit = useCallback(async (ev:SubmitEvent) => {
-        ev.preventDefault()
-        debug('submit', ev)
-        isResolving.value = true
-        await sleep(3000)
-        isResolving.value = false
-    }, [])
+    const isResolving = form.submitting
 
     return html`<div class="route contact">
         <h2>
             contact route
         </h2>
 
-        <form class="contact" onSubmit=${submit}>
+        <form class="contact" onSubmit=${form.submit} noValidate>
+            <${ErrorSummary} form=${form} />
+
             <${Input}
+                ...${form.field('name')}
                 disabled=${isResolving.value}
-                id="example"
-                name="example"
                 type="text"
-                label="Input"
+                label="Name"
+                autocomplete="name"
+                required=${true}
+            />
+
+            <${Input}
+                ...${form.field('email')}
+                disabled=${isResolving.value}
+                type="email"
+                label="Email"
+                description="We will only use this to reply to you."
+                autocomplete="email"
+                required=${true}
             />
 
+            <${Textarea}
+                ...${form.field('message')}
+                disabled=${isResolving.value}
+                label="Message"
+                rows=${5}
+                required=${true}
+            />
+
+            ${status.value === 'success' ?
+                html`<p role="status" class="form-status success">
+                    Thanks, your message was sent.
+                </p>` :
+                null
+            }
+
+            ${status.value === 'error' ?
+                html`<p role="alert" class="form-status error">
+                    Something went wrong sending your message. Please
+                    try again.
+                </p>` :
+                null
+            }
+
             <div class="controls">
                 <${Button}
                     isSpinning=${isResolving}
@@ -45,7 +104,3 @@ export const ContactRoute:FunctionComponent = function ContactRoute () {
         </form>
     </div>`
 }
-
-function sleep (ms:number):Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
-}
@@ -0,0 +1,53 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { type LayoutProps, type LoaderContext, notFound } from '../router.js'
+import { link } from './link.js'
+import './docs.css'
+
+export interface DocsPage {
+    title:string;
+    body:string;
+}
+
+export const pages:Record<string, DocsPage> = {
+    routes: {
+        title: 'Routes',
+        body: 'Routes are defined in one table, in src/routes/index.ts.'
+    },
+    layouts: {
+        title: 'Layouts',
+        body: 'A layout wraps a route and all of its child routes.'
+    }
+}
+
+export const DocsLayout:FunctionComponent<LayoutProps> = function DocsLayout ({
+    children
+}) {
+    return html`<div class="route docs">
+        <aside>
+            <h2>docs</h2>
+            <ul>
+                ${Object.keys(pages).map(page => {
+                    return html`<li>
+                        <a href=${link('/docs/:page', { page })}>
+                            ${pages[page].title}
+                        </a>
+                    </li>`
+                })}
+            </ul>
+        </aside>
+
+        <div class="docs-content">
+            ${children}
+        </div>
+    </div>`
+}
+
+/**
+ * Loader for a docs page. This would be a good place to fetch content.
+ */
+export async function loadDocsPage ({
+    params
+}:LoaderContext<'/docs/:page'>):Promise<DocsPage> {
+    return pages[params.page] || notFound()
+}
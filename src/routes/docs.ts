@@ -0,0 +1,23 @@
+import { html } from 'htm/preact'
+import type { RouteComponent } from '../router.js'
+import { useHead } from '../head.js'
+import type { DocsPage } from './docs-layout.js'
+
+export const DocsIndexRoute:RouteComponent<'/docs'> = function DocsIndexRoute () {
+    return html`<section>
+        <h3>Documentation</h3>
+        <p>Pick a page.</p>
+    </section>`
+}
+
+export const DocsPageRoute:RouteComponent<
+    '/docs/:page',
+    DocsPage
+> = function DocsPageRoute ({ data: page }) {
+    useHead({ description: page.body, og: { type: 'article' } })
+
+    return html`<section>
+        <h3>${page.title}</h3>
+        <p>${page.body}</p>
+    </section>`
+}
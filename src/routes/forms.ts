@@ -0,0 +1,124 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import Debug from '@substrate-system/debug'
+import { rules } from '../../shared/schema.js'
+import { notify } from '../notify.js'
+import { type Validator, useForm } from '../form.js'
+import { Button } from '../components/button.js'
+import { Input } from '../components/input.js'
+import { Select } from '../components/select.js'
+import { RadioGroup } from '../components/radio-group.js'
+import { Checkbox } from '../components/checkbox.js'
+import { ErrorSummary } from '../components/error-summary.js'
+import './forms.css'
+const debug = Debug('example:view:forms')
+
+interface SignupValues {
+    username:string;
+    plan:string;
+    contact:string;
+    terms:boolean;
+}
+
+/**
+ * An async validator. This is where you would ask the server.
+ */
+const available:Validator<SignupValues> = async (username:string) => {
+    await new Promise(resolve => setTimeout(resolve, 300))
+    return ['admin', 'root'].includes(username.toLowerCase()) ?
+        'That username is taken' :
+        null
+}
+
+/**
+ * Examples of each form field component.
+ */
+export const FormsRoute:FunctionComponent = function FormsRoute () {
+    const form = useForm<SignupValues>({
+        initial: { username: '', plan: '', contact: 'email', terms: false },
+        validators: {
+            username: [rules.required('Choose a username'), available],
+            plan: rules.required('Choose a plan'),
+            terms: (checked:boolean) => (checked ?
+                null :
+                'You must accept the terms')
+        },
+        onSubmit: async (values) => {
+            debug('submit', values)
+            notify({
+                kind: 'success',
+                message: 'Your settings were saved successfully.'
+            })
+        }
+    })
+
+    return html`<div class="route forms">
+        <h2>form components</h2>
+
+        <form onSubmit=${form.submit} noValidate>
+            <${ErrorSummary} form=${form} />
+
+            <${Input}
+                ...${form.field('username')}
+                label="Username"
+                autocomplete="username"
+                description="Try admin, to see an async error."
+                required=${true}
+            />
+
+            <${Select}
+                ...${form.field('plan')}
+                label="Plan"
+                placeholder="Choose..."
+                required=${true}
+                options=${[
+                    { value: 'free', label: 'Free' },
+                    { value: 'pro', label: 'Pro' }
+                ]}
+            />
+
+            <${RadioGroup}
+                ...${form.field('contact')}
+                label="How should we contact you?"
+                options=${[
+                    { value: 'email', label: 'Email' },
+                    { value: 'phone', label: 'Phone' },
+                    { value: 'none', label: 'Do not contact me' }
+                ]}
+            />
+
+            <${Checkbox}
+                ...${form.field('terms')}
+                label="I accept the terms"
+                required=${true}
+            />
+
+            <div class="controls">
+                <${Button}
+                    isSpinning=${form.submitting}
+                    class="btn"
+                    type="submit"
+                >
+                    Save
+                <//>
+            </div>
+        </form>
+
+        <h3>errors</h3>
+        <p>
+            If a button's click handler fails, the error is shown
+            as a notification.
+        </p>
+        <${Button} class="btn" onClick=${checkServer}>
+            Check the server
+        <//>
+    </div>`
+}
+
+/**
+ * An action that fails.
+ */
+async function checkServer ():Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 300))
+    throw new Error('The server is not responding. Try again later.')
+}
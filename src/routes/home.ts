@@ -1,13 +1,18 @@
 import { html } from 'htm/preact'
 import { type FunctionComponent } from 'preact'
 import { useCallback } from 'preact/hooks'
+import { useSignal } from '@preact/signals'
 import { State } from '../state.js'
+import { confirm } from '../confirm.js'
 import { Button } from '../components/button.js'
+import { Dialog } from '../components/dialog.js'
 import './home.css'
 
 export const HomeRoute:FunctionComponent<{
     state:ReturnType<typeof State>
 }> = function HomeRoute ({ state }) {
+    const aboutOpen = useSignal<boolean>(false)
+
     const plus = useCallback((ev:MouseEvent) => {
         ev.preventDefault()
         State.Increase(state)
@@ -18,6 +23,28 @@ export const HomeRoute:FunctionComponent<{
         State.Decrease(state)
     }, [])
 
+    const undo = useCallback((ev:Event) => {
+        ev.preventDefault()
+        State.Undo(state)
+    }, [])
+
+    const redo = useCallback((ev:Event) => {
+        ev.preventDefault()
+        State.Redo(state)
+    }, [])
+
+    // don't return the promise -- the button is not busy while we ask
+    const reset = useCallback((ev:Event) => {
+        ev.preventDefault()
+        confirm({
+            title: 'Reset the count?',
+            message: 'The count will go back to zero. You can undo this.',
+            confirmLabel: 'Reset'
+        }).then(ok => {
+            if (ok) State.Reset(state)
+        })
+    }, [])
+
     return html`<section class="route home">
         <div>
             <h2>counter</h2>
@@ -35,6 +62,57 @@ export const HomeRoute:FunctionComponent<{
                     <//>
                 </li>
             </ul>
+
+            <ul class="count-controls history-controls">
+                <li>
+                    <${Button}
+                        class="btn"
+                        onClick=${undo}
+                        disabled=${!state.history.canUndo.value}
+                    >
+                        undo
+                    <//>
+                </li>
+                <li>
+                    <${Button}
+                        class="btn"
+                        onClick=${redo}
+                        disabled=${!state.history.canRedo.value}
+                    >
+                        redo
+                    <//>
+                </li>
+                <li>
+                    <${Button} class="btn" onClick=${reset}>
+                        reset
+                    <//>
+                </li>
+            </ul>
         </div>
+
+        <div class="about">
+            <${Button} class="btn" onClick=${() => { aboutOpen.value = true }}>
+                Open Modal
+            <//>
+        </div>
+
+        <${Dialog}
+            open=${aboutOpen}
+            title="About this app"
+            description="A counter that remembers its history."
+        >
+            <p>
+                The count is saved in this browser, and kept in sync between
+                tabs. Press <kbd>ctrl+z</kbd> to undo.
+            </p>
+            <div class="dialog-actions">
+                <${Button}
+                    class="btn"
+                    onClick=${() => { aboutOpen.value = false }}
+                >
+                    Close
+                <//>
+            </div>
+        <//>
     </section>`
 }
@@ -1,22 +1,119 @@
-import Router from '@substrate-system/routes'
+import type Router from '@substrate-system/routes'
+import {
+    type RouteDef,
+    createRouter,
+    navLinks
+} from '../router.js'
 import { HomeRoute } from './home.js'
-import { ContactRoute } from './contact.js'
+import { DocsLayout, loadDocsPage, pages } from './docs-layout.js'
+import { lazy } from '../lazy.js'
+import { api } from '../api.js'
+import { requireUser } from '../auth.js'
 
-export default function _Router ():InstanceType<typeof Router> {
-    const router = new Router()
+/**
+ * All the routes. This creates the router and the navigation.
+ *
+ * Use `lazy` with a dynamic `import()` to put a route in its own chunk.
+ * A `loader` gets data for the route before it renders. A `guard` runs
+ * first, and can redirect somewhere else.
+ *
+ * Routes without params, a loader, or a guard are rendered to HTML at
+ * build time, unless they have `prerender: false`. The public routes are
+ * in `sitemap.xml`, unless they have `sitemap: false`.
+ */
+export const table = [
+    {
+        path: '/',
+        component: HomeRoute,
+        nav: 'home',
+        title: 'Home',
+        sitemap: { priority: 1 }
+    },
+    {
+        path: '/contact',
+        title: 'Contact',
+        component: lazy(() => import('./contact.js').then(m => m.ContactRoute)),
+        nav: 'contact'
+    },
+    {
+        path: '/forms',
+        title: 'Forms',
+        component: lazy(() => import('./forms.js').then(m => m.FormsRoute)),
+        nav: 'forms'
+    },
+    {
+        path: '/widgets',
+        title: 'Widgets',
+        // the selected tab is in the query string, which the build can't see
+        prerender: false,
+        component: lazy(() => import('./widgets.js').then(m => m.WidgetsRoute)),
+        nav: 'widgets'
+    },
+    {
+        path: '/account',
+        title: 'Account',
+        nav: 'account',
+        // log in first
+        guard: requireUser,
+        loader: ({ signal }) => api.account({ signal }),
+        component: lazy(() => import('./account.js').then(m => m.AccountRoute))
+    },
+    {
+        path: '/notes',
+        title: 'Notes',
+        nav: 'notes',
+        guard: requireUser,
+        loader: ({ signal }) => api.notes({}, { signal }),
+        component: lazy(() => import('./notes.js').then(m => m.NotesRoute))
+    },
+    {
+        path: '/live',
+        title: 'Live',
+        nav: 'live',
+        component: lazy(() => import('./live.js').then(m => m.LiveRoute))
+    },
+    {
+        path: '/login',
+        title: 'Log in',
+        sitemap: false,
+        component: lazy(() => import('./login.js').then(m => m.LoginRoute))
+    },
+    {
+        path: '/docs',
+        layout: DocsLayout,
+        nav: 'docs',
+        children: [
+            {
+                path: '',
+                title: 'Docs',
+                component: lazy(() => {
+                    return import('./docs.js').then(m => m.DocsIndexRoute)
+                })
+            },
+            {
+                path: '/:page',
+                title: ({ data }) => data.title,
+                loader: loadDocsPage,
+                sitemap: {
+                    params: Object.keys(pages).map(page => ({ page }))
+                },
+                component: lazy(() => {
+                    return import('./docs.js').then(m => m.DocsPageRoute)
+                })
+            }
+        ]
+    }
+] as const satisfies readonly RouteDef[]
 
-    router.addRoute('/', () => {
-        return HomeRoute
-    })
+export default function _Router ():InstanceType<typeof Router> {
+    return createRouter(table)
+}
 
-    router.addRoute('/contact', () => {
-        return ContactRoute
-    })
+export const routes = navLinks(table)
 
-    return router
-}
+export { link } from './link.js'
 
-export const routes = [
-    { href: '/', text: 'home' },
-    { href: '/contact', text: 'contact' }
-]
+/**
+ * Rendered when no route matches, or when a route throws `notFound()`.
+ */
+export { NotFoundRoute as NotFound } from './not-found.js'
@@ -0,0 +1,8 @@
+import { createLink } from '../router.js'
+import type { table } from './index.js'
+
+/**
+ * Create a URL for a route. This is a type error if the path is not in the
+ * route table, or if the params are missing.
+ */
+export const link = createLink<typeof table>()
@@ -0,0 +1,47 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useMemo } from 'preact/hooks'
+import type { SharedCount } from '../../shared/api.js'
+import { Button } from '../components/button.js'
+import { type EventStatus, useEventStream } from '../events.js'
+import { api } from '../api.js'
+import './live.css'
+
+const STATUS:Record<EventStatus, string> = {
+    connecting: 'Connecting…',
+    open: 'Live',
+    reconnecting: 'Reconnecting…',
+    closed: 'Not connected'
+}
+
+/**
+ * A counter that everyone shares. The count comes from server-sent events,
+ * so it changes when someone else adds one, in any tab or browser.
+ */
+export const LiveRoute:FunctionComponent = function LiveRoute () {
+    const events = useEventStream('events')
+    const shared = useMemo(() => {
+        return events.signal<SharedCount|null>('count', null)
+    }, [events])
+    const status = events.status.value
+
+    return html`<div class="route live">
+        <h2>live</h2>
+
+        <p>
+            Everyone who visits this page shares this count.
+        </p>
+
+        <p class="live-status live-status-${status}" role="status">
+            ${STATUS[status]}
+        </p>
+
+        <p class="shared-count">
+            Count: <output>${shared.value ? shared.value.count : '…'}</output>
+        </p>
+
+        <${Button} onClick=${async () => { await api.incrementCounter() }}>
+            Add one
+        <//>
+    </div>`
+}
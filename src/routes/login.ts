@@ -0,0 +1,83 @@
+import { html } from 'htm/preact'
+import Debug from '@substrate-system/debug'
+import { type LoginRequest, loginSchema } from '../../shared/auth.js'
+import type { RouteComponent } from '../router.js'
+import { ApiError } from '../api.js'
+import { login, nextPath, user } from '../auth.js'
+import { useForm } from '../form.js'
+import { errorMessage, notify } from '../notify.js'
+import { Button } from '../components/button.js'
+import { Input } from '../components/input.js'
+import { ErrorSummary } from '../components/error-summary.js'
+import './login.css'
+const debug = Debug('example:view:login')
+
+export const LoginRoute:RouteComponent<'/login'> = function LoginRoute ({
+    state
+}) {
+    const query = new URLSearchParams(state.route.value.split('?')[1])
+
+    const form = useForm<LoginRequest>({
+        initial: { username: '', password: '' },
+        validators: loginSchema,
+        onSubmit: async (values) => {
+            try {
+                await login(values)
+            } catch (err) {
+                debug('login error', err)
+                if (err instanceof ApiError && err.status === 422) {
+                    return err.body?.errors
+                }
+                if (err instanceof ApiError && err.status === 401) {
+                    return { password: 'Wrong username or password' }
+                }
+                notify({ kind: 'error', message: errorMessage(err) })
+                return
+            }
+
+            // go back to where we were going
+            state._setRoute(nextPath(query))
+        }
+    })
+
+    if (user.value) {
+        return html`<div class="route login">
+            <h2>log in</h2>
+            <p>You are logged in as ${user.value.name}.</p>
+        </div>`
+    }
+
+    return html`<div class="route login">
+        <h2>log in</h2>
+
+        <form onSubmit=${form.submit} noValidate>
+            <${ErrorSummary} form=${form} />
+
+            <${Input}
+                ...${form.field('username')}
+                label="Username"
+                autocomplete="username"
+                description="Use demo, with the password demo."
+                required=${true}
+            />
+
+            <${Input}
+                ...${form.field('password')}
+                type="password"
+                label="Password"
+                autocomplete="current-password"
+                required=${true}
+            />
+
+            <div class="controls">
+                <${Button}
+                    isSpinning=${form.submitting}
+                    class="btn"
+                    type="submit"
+                >
+                    Log in
+                <//>
+            </div>
+        </form>
+    </div>`
+}
@@ -0,0 +1,19 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useHead } from '../head.js'
+
+/**
+ * The path comes from the router, not `location`, so this can be
+ * prerendered.
+ */
+export const NotFoundRoute:FunctionComponent<{
+    path:string
+}> = function NotFoundRoute ({ path }) {
+    useHead({ robots: 'noindex' })
+
+    return html`<section class="route not-found">
+        <h2>Not found</h2>
+        <p>There is nothing at <code>${path}</code>.</p>
+        <p><a href="/">Go home</a></p>
+    </section>`
+}
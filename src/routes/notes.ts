@@ -0,0 +1,223 @@
+import { html } from 'htm/preact'
+import { type FunctionComponent } from 'preact'
+import { useEffect, useRef } from 'preact/hooks'
+import { useSignal } from '@preact/signals'
+import Debug from '@substrate-system/debug'
+import {
+    type NoteRequest,
+    type NoteResponse,
+    type NotesResponse,
+    noteSchema
+} from '../../shared/notes.js'
+import { Button } from '../components/button.js'
+import { Textarea } from '../components/textarea.js'
+import { ErrorSummary } from '../components/error-summary.js'
+import { ApiError, api } from '../api.js'
+import { confirm } from '../confirm.js'
+import { useForm } from '../form.js'
+import { errorMessage, notify } from '../notify.js'
+import type { RouteComponent } from '../router.js'
+import './notes.css'
+const debug = Debug('example:view:notes')
+
+const EditNote:FunctionComponent<{
+    entry:NoteResponse;
+    onSave:(entry:NoteResponse)=>void;
+    onReload:(entry:NoteResponse)=>void;
+    onCancel:()=>void;
+}> = function EditNote ({ entry, onSave, onReload, onCancel }) {
+    const id = 'note-' + entry.note.id
+    // the version we are changing
+    const etag = useRef<string>(entry.etag)
+    const form = useForm<NoteRequest>({
+        initial: { text: entry.note.text },
+        validators: noteSchema,
+        onSubmit: async (values) => {
+            try {
+                onSave(await api.updateNote(entry.note.id, values, etag.current))
+            } catch (err) {
+                debug('update error', err)
+                if (err instanceof ApiError && err.status === 422) {
+                    return err.body?.errors
+                }
+                if (err instanceof ApiError && err.status === 412) {
+                    // show the new version; saving again replaces it
+                    const latest = await api.note(entry.note.id)
+                    etag.current = latest.etag
+                    onReload(latest)
+                    return {
+                        text: 'This note was changed somewhere else. ' +
+                            'Save again to replace it.'
+                    }
+                }
+                notify({ kind: 'error', message: errorMessage(err) })
+            }
+        }
+    })
+
+    useEffect(() => {
+        document.getElementById(id)?.focus()
+    }, [])
+
+    return html`<form class="edit-note" onSubmit=${form.submit} noValidate>
+        <${Textarea}
+            ...${form.field('text')}
+            id=${id}
+            label="Note"
+            rows=${3}
+            required=${true}
+        />
+        <div class="controls">
+            <${Button} isSpinning=${form.submitting} type="submit">Save<//>
+            <${Button} type="button" onClick=${onCancel}>Cancel<//>
+        </div>
+    </form>`
+}
+
+const NoteItem:FunctionComponent<{
+    entry:NoteResponse;
+    onChange:(entry:NoteResponse)=>void;
+    onDelete:(id:string)=>void;
+}> = function NoteItem ({ entry, onChange, onDelete }) {
+    const editing = useSignal<boolean>(false)
+    const editButton = 'edit-' + entry.note.id
+    const { note } = entry
+
+    function stopEditing () {
+        editing.value = false
+        // wait for the button to render
+        setTimeout(() => document.getElementById(editButton)?.focus())
+    }
+
+    async function remove () {
+        const ok = await confirm({
+            title: 'Delete this note?',
+            message: 'You can\'t undo this.',
+            confirmLabel: 'Delete'
+        })
+        if (!ok) return
+        await api.deleteNote(note.id)
+        onDelete(note.id)
+    }
+
+    return html`<li class="note">
+        ${editing.value ?
+            html`<${EditNote}
+                entry=${entry}
+                onSave=${(saved:NoteResponse) => {
+                    onChange(saved)
+                    stopEditing()
+                }}
+                onReload=${onChange}
+                onCancel=${stopEditing}
+            />` :
+            html`<p class="note-text">${note.text}</p>
+            <p class="note-date">
+                <time datetime=${note.updated}>
+                    ${new Date(note.updated).toLocaleString()}
+                </time>
+            </p>
+            <div class="controls">
+                <${Button}
+                    id=${editButton}
+                    type="button"
+                    onClick=${() => { editing.value = true }}
+                >
+                    Edit
+                <//>
+                <${Button} type="button" onClick=${remove}>Delete<//>
+            </div>`
+        }
+    </li>`
+}
+
+/**
+ * An example of storing data with a function. See
+ * `netlify/functions/notes`.
+ */
+export const NotesRoute:RouteComponent<
+    '/notes',
+    NotesResponse
+> = function NotesRoute ({ data }) {
+    const notes = useSignal<NoteResponse[]>(data.notes)
+    const cursor = useSignal<string|null>(data.cursor)
+    const heading = useRef<HTMLHeadingElement>(null)
+
+    const form = useForm<NoteRequest>({
+        initial: { text: '' },
+        validators: noteSchema,
+        onSubmit: async (values) => {
+            try {
+                const entry = await api.createNote(values)
+                // new notes are last, so they are on the last page
+                if (!cursor.value) notes.value = [...notes.value, entry]
+                form.reset()
+                notify({ kind: 'success', message: 'Note saved.' })
+            } catch (err) {
+                debug('create error', err)
+                if (err instanceof ApiError && err.status === 422) {
+                    return err.body?.errors
+                }
+                notify({ kind: 'error', message: errorMessage(err) })
+            }
+        }
+    })
+
+    async function loadMore () {
+        const page = await api.notes({ cursor: cursor.value })
+        notes.value = [...notes.value, ...page.notes]
+        cursor.value = page.cursor
+    }
+
+    function change (entry:NoteResponse) {
+        notes.value = notes.value.map(n => {
+            return n.note.id === entry.note.id ? entry : n
+        })
+    }
+
+    function remove (id:string) {
+        notes.value = notes.value.filter(n => n.note.id !== id)
+        notify({ kind: 'success', message: 'Note deleted.' })
+        // the focused button is gone
+        heading.current?.focus()
+    }
+
+    return html`<div class="route notes">
+        <h2 ref=${heading} tabIndex=${-1}>notes</h2>
+
+        ${notes.value.length ?
+            html`<ul class="notes-list">
+                ${notes.value.map(entry => html`<${NoteItem}
+                    key=${entry.note.id}
+                    entry=${entry}
+                    onChange=${change}
+                    onDelete=${remove}
+                />`)}
+            </ul>` :
+            html`<p>No notes yet.</p>`
+        }
+
+        ${cursor.value ?
+            html`<${Button} type="button" onClick=${loadMore}>
+                Load more
+            <//>` :
+            null
+        }
+
+        <form class="new-note" onSubmit=${form.submit} noValidate>
+            <h3>New note</h3>
+            <${ErrorSummary} form=${form} />
+            <${Textarea}
+                ...${form.field('text')}
+                label="Note"
+                rows=${3}
+                required=${true}
+            />
+            <div class="controls">
+                <${Button} isSpinning=${form.submitting} type="submit">
+                    Add note
+                <//>
+            </div>
+        </form>
+    </div>`
+}
@@ -0,0 +1,97 @@
+import { html } from 'htm/preact'
+import { useSignal } from '@preact/signals'
+import type { RouteComponent } from '../router.js'
+import { Tabs } from '../components/tabs.js'
+import { Accordion, Disclosure } from '../components/disclosure.js'
+import { Combobox } from '../components/combobox.js'
+import './widgets.css'
+
+const fruits = [
+    'Apple',
+    'Apricot',
+    'Banana',
+    'Blueberry',
+    'Cherry',
+    'Grape',
+    'Mango',
+    'Orange',
+    'Peach',
+    'Pear'
+].map(label => ({ value: label.toLowerCase(), label }))
+
+/**
+ * Examples of the ARIA widget components.
+ */
+export const WidgetsRoute:RouteComponent<'/widgets'> = function WidgetsRoute ({
+    state
+}) {
+    const fruit = useSignal<string>('')
+
+    return html`<div class="route widgets">
+        <h2>widgets</h2>
+
+        <section>
+            <h3>Tabs</h3>
+            <p>The selected tab is kept in the URL.</p>
+            <${Tabs}
+                label="Planets"
+                param="tab"
+                state=${state}
+                tabs=${[
+                    {
+                        id: 'mercury',
+                        label: 'Mercury',
+                        panel: html`<p>The smallest planet.</p>`
+                    },
+                    {
+                        id: 'venus',
+                        label: 'Venus',
+                        panel: html`<p>The hottest planet.</p>`
+                    },
+                    {
+                        id: 'earth',
+                        label: 'Earth',
+                        panel: html`<p>The only planet with known life.</p>`
+                    }
+                ]}
+            />
+        </section>
+
+        <section>
+            <h3>Disclosure</h3>
+            <${Disclosure} summary="Show details">
+                <p>Details that are hidden until you ask for them.</p>
+            <//>
+        </section>
+
+        <section>
+            <h3>Accordion</h3>
+            <${Accordion}
+                level=${4}
+                items=${[
+                    {
+                        id: 'shipping',
+                        heading: 'Shipping',
+                        content: html`<p>Orders ship in 2 days.</p>`
+                    },
+                    {
+                        id: 'returns',
+                        heading: 'Returns',
+                        content: html`<p>Return anything within 30 days.</p>`
+                    }
+                ]}
+            />
+        </section>
+
+        <section>
+            <h3>Listbox</h3>
+            <${Combobox}
+                label="Favorite fruit"
+                options=${fruits}
+                value=${fruit}
+                placeholder="Choose a fruit"
+            />
+            <p>You chose: <output>${fruit.value || 'nothing'}</output></p>
+        </section>
+    </div>`
+}
@@ -0,0 +1,124 @@
+import {
+    type CacheRule,
+    RUNTIME_PREFIX,
+    isCacheable,
+    matchRule
+} from './caching.js'
+
+/**
+ * The service worker. The build makes `sw.js` from this, with the list of
+ * files in the build. See `build/service-worker.ts`.
+ *
+ * Every file in the build is cached when the worker installs. A new
+ * version waits until the page tells it to take over, so the page can ask
+ * the user first. See `src/offline.ts`.
+ */
+
+// these are set by the build
+declare const __PRECACHE__:string[]
+declare const __VERSION__:string
+declare const __SHELL__:string
+declare const __RUNTIME__:CacheRule[]
+
+const sw = self as unknown as ServiceWorkerGlobalScope
+const PRECACHE = 'precache-' + __VERSION__
+
+/**
+ * Paths that are not pages, so they don't get the app shell.
+ */
+const NOT_PAGES = ['/api/', '/.netlify/']
+
+sw.addEventListener('install', ev => {
+    ev.waitUntil(caches.open(PRECACHE).then(cache => {
+        return cache.addAll(__PRECACHE__)
+    }))
+})
+
+sw.addEventListener('activate', ev => {
+    ev.waitUntil((async () => {
+        const names = await caches.keys()
+        await Promise.all(names
+            .filter(name => name !== PRECACHE && !name.startsWith(RUNTIME_PREFIX))
+            .map(name => caches.delete(name)))
+        await sw.clients.claim()
+    })())
+})
+
+sw.addEventListener('message', ev => {
+    if (ev.data?.type === 'SKIP_WAITING') sw.skipWaiting()
+})
+
+sw.addEventListener('fetch', ev => {
+    const { request } = ev
+    const url = new URL(request.url)
+    if (request.method !== 'GET' || url.origin !== sw.location.origin) return
+
+    if (request.mode === 'navigate') {
+        if (NOT_PAGES.some(path => url.pathname.startsWith(path))) return
+        return ev.respondWith(page(request, url.pathname))
+    }
+
+    const rule = matchRule(__RUNTIME__, url.pathname)
+    if (rule) {
+        if (rule.strategy === 'network-only') return
+        return ev.respondWith(runtime(ev, rule))
+    }
+
+    ev.respondWith(precached(request))
+})
+
+/**
+ * A prerendered page, or the app shell, like the `/*` redirect in
+ * `netlify.toml`.
+ */
+async function page (request:Request, pathname:string):Promise<Response> {
+    const cache = await caches.open(PRECACHE)
+    const res = (await cache.match(pathname)) || (await cache.match(__SHELL__))
+    return res || fetch(request)
+}
+
+async function precached (request:Request):Promise<Response> {
+    const res = await caches.match(request, { cacheName: PRECACHE })
+    return res || fetch(request)
+}
+
+async function runtime (ev:FetchEvent, rule:CacheRule):Promise<Response> {
+    const { request } = ev
+    const cache = await caches.open(RUNTIME_PREFIX + (rule.cache || 'api'))
+
+    async function update ():Promise<Response> {
+        const res = await fetch(request)
+        if (isCacheable(res)) await cache.put(request, res.clone())
+        return res
+    }
+
+    if (rule.strategy === 'cache-first') {
+        return (await cache.match(request)) || update()
+    }
+
+    if (rule.strategy === 'stale-while-revalidate') {
+        const cached = await cache.match(request)
+        const updated = update()
+        // keep the worker alive until the cache is updated
+        ev.waitUntil(updated.catch(() => {}))
+        return cached || updated
+    }
+
+    // network-first
+    const network = update()
+    ev.waitUntil(network.catch(() => {}))
+    try {
+        return await (rule.timeout ?
+            Promise.race([network, timeout(rule.timeout)]) :
+            network)
+    } catch (_err) {
+        // wait for a slow network if nothing is cached
+        return (await cache.match(request)) || network
+    }
+}
+
+function timeout (ms:number):Promise<never> {
+    return new Promise((_resolve, reject) => {
+        setTimeout(() => reject(new Error('Timed out')), ms)
+    })
+}
@@ -1,25 +1,74 @@
 import { type Signal, signal } from '@preact/signals'
 import Route from 'route-event'
+import { persist } from './persist.js'
+import { History, undoShortcuts } from './history.js'
+import { type Notification, notifications } from './notify.js'
+import type { User } from '../shared/auth.js'
+import { loadSession, user } from './auth.js'
 // import Debug from '@substrate-system/debug'
 // const debug = Debug(import.meta.env.DEV)
 
 /**
  * Setup any state
  *   - routes
+ *   - `navigating` is true while a route loader is running
+ *   - `count` is persisted in localStorage
+ *   - `history` records actions, for undo and redo
+ *   - `notifications` are the toasts that are showing. Add one with `notify`.
+ *   - `user` is the logged in user, or `null`
+ *
+ * Pass `href` to create the state for a route without a browser, when
+ * prerendering. Nothing is persisted or loaded then, and the route only
+ * changes if you set it.
  */
-export function State ():{
+export function State (
+    href:string = location.pathname + location.search
+):{
     route:Signal<string>;
+    navigating:Signal<boolean>;
     count:Signal<number>;
+    history:History;
+    notifications:Signal<Notification[]>;
+    user:Signal<User|null>;
     _setRoute:(path:string)=>void;
+    _pushRoute:(path:string)=>void;
 } {  // eslint-disable-line indent
-    const onRoute = Route()
+    const count = signal<number>(0)
 
     const state = {
-        _setRoute: onRoute.setRoute.bind(onRoute),
-        count: signal<number>(0),
-        route: signal<string>(location.pathname + location.search)
+        _setRoute: (path:string) => { state.route.value = path },
+        /**
+         * Change the URL without a new page, for example to keep the
+         * selected tab in the query string.
+         */
+        _pushRoute: (path:string) => { state.route.value = path },
+        count,
+        // the signals that can be undone
+        history: History({ count }),
+        navigating: signal<boolean>(false),
+        notifications,
+        user,
+        route: signal<string>(href)
+    }
+
+    // prerendering, in node
+    if (typeof window === 'undefined') return state
+
+    const onRoute = Route()
+    state._setRoute = onRoute.setRoute.bind(onRoute)
+    state._pushRoute = (path:string) => {
+        onRoute.setRoute.push(path)
+        state.route.value = path
     }
 
+    // keep the count across page loads, and in sync between tabs
+    persist(state.count, { key: 'count', version: 1 })
+
+    undoShortcuts(state.history)
+
+    // find out who is logged in
+    loadSession()
+
     /**
      * set the app state to match the browser URL
      */
@@ -40,9 +89,27 @@ export function State ():{
 }
 
 State.Increase = function (state:ReturnType<typeof State>) {
-    state.count.value++
+    state.history.dispatch('increase', () => {
+        state.count.value++
+    })
 }
 
 State.Decrease = function (state:ReturnType<typeof State>) {
-    state.count.value--
+    state.history.dispatch('decrease', () => {
+        state.count.value--
+    })
+}
+
+State.Reset = function (state:ReturnType<typeof State>) {
+    state.history.dispatch('reset', () => {
+        state.count.value = 0
+    })
+}
+
+State.Undo = function (state:ReturnType<typeof State>) {
+    state.history.undo()
+}
+
+State.Redo = function (state:ReturnType<typeof State>) {
+    state.history.redo()
 }
@@ -52,7 +52,7 @@ test.describe('Home Route Accessibility', () => {
         const buttons = await page.locator('button').count()
 
         // Should be able to tab through all interactive elements
-        // We have 3 links (/aaa, /bbb, /ccc) and 2 buttons (plus, minus)
+        // We have the skip link, the nav links, and 2 buttons (plus, minus)
         expect(links).toBeGreaterThan(0)
         expect(buttons).toBeGreaterThan(0)
 
@@ -111,8 +111,8 @@ test.describe('Home Route Accessibility', () => {
 })
 
 test.describe('Route Navigation Accessibility', () => {
-    test('should have no violations on /aaa route', async ({ page }) => {
-        await page.goto('/aaa')
+    test('should have no violations on /contact route', async ({ page }) => {
+        await page.goto('/contact')
         await page.waitForSelector('h2')
 
         await expectNoA11yViolations(page, {
@@ -120,18 +120,20 @@ test.describe('Route Navigation Accessibility', () => {
         })
     })
 
-    test('should have no violations on /bbb route', async ({ page }) => {
-        await page.goto('/bbb')
-        await page.waitForSelector('h2')
+    test('should have no violations on /docs route', async ({ page }) => {
+        await page.goto('/docs')
+        await page.waitForSelector('h3')
 
         await expectNoA11yViolations(page, {
             tags: AXE_TAGS.wcagAA,
         })
     })
 
-    test('should have no violations on /ccc route', async ({ page }) => {
-        await page.goto('/ccc')
-        await page.waitForSelector('h2')
+    test('should have no violations on the not found route', async ({
+        page,
+    }) => {
+        await page.goto('/does-not-exist')
+        await page.waitForSelector('h2:has-text("Not found")')
 
         await expectNoA11yViolations(page, {
             tags: AXE_TAGS.wcagAA,
@@ -144,13 +146,67 @@ test.describe('Route Navigation Accessibility', () => {
         await page.goto('/')
         await page.waitForSelector('h1')
 
+        const announcer = page.locator('#route-announcer')
+        await expect(announcer).toHaveAttribute('aria-live', 'polite')
+        // nothing is announced on the first page load
+        await expect(announcer).toHaveText('')
+
         // Click a route link
-        await page.click('a[href="/aaa"]')
-        await page.waitForSelector('h2:has-text("aaa")')
+        await page.click('a[href="/contact"]')
+        await page.waitForSelector('h2:has-text("contact")')
 
-        // Verify the new content is visible
-        const heading = page.locator('h2:has-text("aaa")')
-        await expect(heading).toBeVisible()
+        await expect(announcer).toHaveText('Navigated to Contact')
+    })
+
+    test('should move focus to the new page heading', async ({ page }) => {
+        await page.goto('/')
+        await page.waitForSelector('h1')
+
+        await page.click('a[href="/contact"]')
+        const heading = page.locator('#content h2')
+        await expect(heading).toHaveText(/contact/)
+        await expect(heading).toBeFocused()
+
+        // not the heading in the docs sidebar
+        await page.click('a[href="/docs"]')
+        await page.click('a[href="/docs/routes"]')
+        const pageHeading = page.locator('.docs-content h3')
+        await expect(pageHeading).toHaveText('Routes')
+        await expect(pageHeading).toBeFocused()
+    })
+
+    test('should update the document title', async ({ page }) => {
+        await page.goto('/')
+        await page.waitForSelector('h1')
+        await expect(page).toHaveTitle('Home · ABC')
+
+        await page.click('a[href="/docs"]')
+        await expect(page).toHaveTitle('Docs · ABC')
+
+        await page.click('a[href="/docs/routes"]')
+        await expect(page).toHaveTitle('Routes · ABC')
+
+        // the rest of the head changes too
+        await expect(page.locator('meta[name="description"]'))
+            .toHaveAttribute('content', /^Routes are defined in one table/)
+        await expect(page.locator('link[rel="canonical"]'))
+            .toHaveAttribute('href', /\/docs\/routes$/)
+    })
+
+    test('should have a skip link', async ({ page }) => {
+        await page.goto('/')
+        await page.waitForSelector('h1')
+
+        // the skip link is the first thing in the tab order
+        await page.keyboard.press('Tab')
+        const skipLink = page.getByRole('link', { name: 'Skip to content' })
+        await expect(skipLink).toBeFocused()
+        await expect(skipLink).toBeVisible()
+
+        await page.keyboard.press('Enter')
+        await expect(page.locator('#content h2').first()).toBeFocused()
+        // should not navigate
+        expect(new URL(page.url()).pathname).toBe('/')
     })
 })
 
@@ -247,6 +303,22 @@ test.describe('Dynamic Content Accessibility', () => {
         })
     })
 
+    test('should show live updates from the server', async ({ page }) => {
+        await page.goto('/live')
+
+        // the connection status is a status region
+        await expect(page.locator('.live-status')).toHaveText('Live')
+        const count = page.locator('.shared-count output')
+        await expect(count).toHaveText(/^\d+$/)
+        const before = Number(await count.textContent())
+
+        // the new count comes back as an event
+        await page.getByRole('button', { name: 'Add one' }).click()
+        await expect(count).not.toHaveText(String(before))
+
+        await expectNoA11yViolations(page)
+    })
+
     test('should maintain accessibility after route navigation', async ({
         page,
     }) => {
@@ -254,13 +326,13 @@ test.describe('Dynamic Content Accessibility', () => {
         await page.waitForSelector('h1')
 
         // Navigate to different routes
-        await page.click('a[href="/aaa"]')
-        await page.waitForSelector('h2:has-text("aaa")')
+        await page.click('a[href="/contact"]')
+        await page.waitForSelector('h2:has-text("contact")')
 
         await expectNoA11yViolations(page)
 
-        await page.click('a[href="/bbb"]')
-        await page.waitForSelector('h2:has-text("bbb")')
+        await page.click('a[href="/docs"]')
+        await page.waitForSelector('h3:has-text("Documentation")')
 
         await expectNoA11yViolations(page)
     })
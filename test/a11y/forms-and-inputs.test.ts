@@ -8,14 +8,14 @@ import {
 /**
  * Form and input accessibility tests
  *
- * This file demonstrates how to test forms and inputs when you add them.
- * These tests are currently skipped since the app doesn't have forms yet.
- * Remove test.skip when you add form elements to your application.
+ * The form tests run against the contact form (`/contact`), and the form
+ * component examples (`/forms`). The other examples are skipped until the
+ * app has those widgets. Remove test.skip when you add them.
  */
 
-test.describe.skip('Form Accessibility Examples', () => {
+test.describe('Form Accessibility', () => {
     test('should have properly labeled form inputs', async ({ page }) => {
-        await page.goto('/contact')  // Replace with your actual form route
+        await page.goto('/contact')
         await page.waitForSelector('form')
 
         // Test that all inputs have labels
@@ -40,7 +40,9 @@ test.describe.skip('Form Accessibility Examples', () => {
         await page.waitForSelector('[role="alert"]', { timeout: 5000 })
 
         // Verify errors are announced to screen readers
-        const errorRegion = page.locator('[role="alert"]')
+        const errorRegion = page.locator('[role="alert"]', {
+            hasText: 'There is a problem',
+        })
         await expect(errorRegion).toBeVisible()
 
         // Check that errors don't introduce new a11y violations
@@ -78,7 +80,7 @@ test.describe.skip('Form Accessibility Examples', () => {
         await page.waitForSelector('form')
 
         // Fill form using keyboard
-        await page.keyboard.press('Tab')
+        await page.focus('input[name="name"]')
         await page.keyboard.type('John Doe')
 
         await page.keyboard.press('Tab')
@@ -87,23 +89,25 @@ test.describe.skip('Form Accessibility Examples', () => {
         await page.keyboard.press('Tab')
         await page.keyboard.type('Test message')
 
-        // Submit with Enter key
+        // Submit with Enter key, from a text input
+        await page.focus('input[name="email"]')
         await page.keyboard.press('Enter')
 
-        // Verify submission (adjust based on your app's behavior)
-        // This is just an example
-        await page.waitForSelector('[role="status"]', { timeout: 5000 })
+        // The success message is a status region
+        await page.waitForSelector('.form-status[role="status"]', {
+            timeout: 5000,
+        })
     })
 
     test('should have accessible select dropdowns', async ({ page }) => {
-        await page.goto('/form-with-select')
+        await page.goto('/forms')
         await page.waitForSelector('select')
 
         // Verify select has a label
-        await expectProperLabel(page, 'select[name="category"]')
+        await expectProperLabel(page, 'select[name="plan"]')
 
         // Check that select is keyboard navigable
-        await page.focus('select[name="category"]')
+        await page.focus('select[name="plan"]')
         await page.keyboard.press('ArrowDown')
         await page.keyboard.press('Enter')
 
@@ -112,7 +116,7 @@ test.describe.skip('Form Accessibility Examples', () => {
     })
 
     test('should have accessible radio button groups', async ({ page }) => {
-        await page.goto('/form-with-radio')
+        await page.goto('/forms')
         await page.waitForSelector('input[type="radio"]')
 
         // Verify fieldset and legend for radio group
@@ -135,7 +139,7 @@ test.describe.skip('Form Accessibility Examples', () => {
     })
 
     test('should have accessible checkboxes', async ({ page }) => {
-        await page.goto('/form-with-checkbox')
+        await page.goto('/forms')
         await page.waitForSelector('input[type="checkbox"]')
 
         // Each checkbox should have a label
@@ -178,11 +182,69 @@ test.describe.skip('Form Accessibility Examples', () => {
         // Should have some autocomplete value
         expect(nameAutocomplete).toBeTruthy()
     })
+
+    test('should move focus to the error summary on a failed submit', async ({
+        page,
+    }) => {
+        await page.goto('/contact')
+        await page.waitForSelector('form')
+
+        await page.click('button[type="submit"]')
+
+        const summary = page.locator('.error-summary')
+        await expect(summary).toBeFocused()
+
+        // the links in the summary go to the fields
+        await summary.getByRole('link', { name: 'Enter your email address' })
+            .click()
+        await expect(page.locator('input[name="email"]')).toBeFocused()
+    })
+
+    test('should show async validation errors', async ({ page }) => {
+        await page.goto('/forms')
+        await page.waitForSelector('form')
+
+        await page.fill('input[name="username"]', 'admin')
+        await page.locator('input[name="username"]').blur()
+
+        await expect(page.locator('#username-error')).toHaveText(
+            'That username is taken'
+        )
+        await expect(page.locator('input[name="username"]')).toHaveAttribute(
+            'aria-invalid',
+            'true'
+        )
+    })
+
+    test('should log in, and go back to the protected route', async ({
+        page,
+    }) => {
+        await page.goto('/account')
+        await expect(page).toHaveURL(/\/login\?next=%2Faccount/)
+        await page.waitForSelector('form')
+
+        await expectProperLabel(page, 'input[name="username"]')
+        await expectProperLabel(page, 'input[name="password"]')
+        await expectNoA11yViolations(page)
+
+        // a wrong password is a field error
+        await page.fill('input[name="username"]', 'demo')
+        await page.fill('input[name="password"]', 'nope')
+        await page.click('button[type="submit"]')
+        await expect(page.locator('#password-error')).toHaveText(
+            'Wrong username or password'
+        )
+
+        await page.fill('input[name="password"]', 'demo')
+        await page.click('button[type="submit"]')
+        await expect(page).toHaveURL(/\/account$/)
+        await expect(page.locator('h2')).toHaveText('account')
+    })
 })
 
-test.describe.skip('ARIA Widget Examples', () => {
+test.describe('ARIA Widget Examples', () => {
     test('should have accessible custom dropdown', async ({ page }) => {
-        await page.goto('/custom-dropdown')
+        await page.goto('/widgets')
 
         // Custom dropdowns should use appropriate ARIA
         const dropdown = page.locator('[role="combobox"]')
@@ -207,6 +269,22 @@ test.describe.skip('ARIA Widget Examples', () => {
         await expect(listbox).toBeVisible()
         await expect(listbox).toHaveAttribute('role', 'listbox')
 
+        // The active option is the active descendant, and focus stays on
+        // the combobox
+        await page.keyboard.press('ArrowDown')
+        const activeId = await dropdown.getAttribute('aria-activedescendant')
+        await expect(page.locator(`#${activeId}`)).toHaveText('Apricot')
+        await expect(dropdown).toBeFocused()
+
+        // Type-ahead
+        await page.keyboard.type('ch')
+        const typedId = await dropdown.getAttribute('aria-activedescendant')
+        await expect(page.locator(`#${typedId}`)).toHaveText('Cherry')
+
+        await page.keyboard.press('Enter')
+        await expect(dropdown).toHaveAttribute('aria-expanded', 'false')
+        await expect(dropdown).toHaveText('Cherry')
+
         await expectNoA11yViolations(page)
     })
 
@@ -238,15 +316,44 @@ test.describe.skip('ARIA Widget Examples', () => {
         })
         expect(focusIsInModal).toBe(true)
 
+        // Tab should not leave the modal
+        await page.keyboard.press('Tab')
+        await page.keyboard.press('Tab')
+        const stillInModal = await page.evaluate(() => {
+            const modal = document.querySelector('[role="dialog"]')
+            return modal?.contains(document.activeElement)
+        })
+        expect(stillInModal).toBe(true)
+
         // Escape key should close modal
         await page.keyboard.press('Escape')
         await expect(modal).toBeHidden()
 
+        // Focus goes back to the button that opened it
+        await expect(page.locator('button:has-text("Open Modal")'))
+            .toBeFocused()
+
         await expectNoA11yViolations(page)
     })
 
+    test('should confirm with an alert dialog', async ({ page }) => {
+        await page.goto('/')
+        await page.waitForSelector('h1')
+
+        await page.click('button:has-text("reset")')
+
+        const confirmDialog = page.locator('[role="alertdialog"]')
+        await expect(confirmDialog).toBeVisible()
+        await expect(confirmDialog).toHaveAttribute('aria-modal', 'true')
+        await expect(confirmDialog.locator('button').first()).toBeFocused()
+
+        await page.keyboard.press('Escape')
+        await expect(confirmDialog).toHaveCount(0)
+        await expect(page.locator('button:has-text("reset")')).toBeFocused()
+    })
+
     test('should have accessible tabs widget', async ({ page }) => {
-        await page.goto('/tabs')
+        await page.goto('/widgets')
 
         // Verify ARIA roles
         const tablist = page.locator('[role="tablist"]')
@@ -276,59 +383,137 @@ test.describe.skip('ARIA Widget Examples', () => {
             await expect(panel).toHaveAttribute('role', 'tabpanel')
         }
 
+        // The selected tab is in the URL
+        await expect(page).toHaveURL(/\?tab=venus/)
+        await page.reload()
+        await expect(page.locator('[role="tab"]').nth(1))
+            .toHaveAttribute('aria-selected', 'true')
+
+        await expectNoA11yViolations(page)
+    })
+
+    test('should have accessible disclosure and accordion', async ({
+        page,
+    }) => {
+        await page.goto('/widgets')
+
+        const disclosure = page.locator('.disclosure-button')
+        await expect(disclosure).toHaveAttribute('aria-expanded', 'false')
+        await disclosure.click()
+        await expect(disclosure).toHaveAttribute('aria-expanded', 'true')
+        const contentId = await disclosure.getAttribute('aria-controls')
+        await expect(page.locator(`#${contentId}`)).toBeVisible()
+
+        const headers = page.locator('.accordion-header')
+        await headers.first().focus()
+        await page.keyboard.press('ArrowDown')
+        await expect(headers.nth(1)).toBeFocused()
+        await page.keyboard.press('Enter')
+        await expect(headers.nth(1)).toHaveAttribute('aria-expanded', 'true')
+
         await expectNoA11yViolations(page)
     })
 })
 
-test.describe.skip('Complex Interaction Examples', () => {
+test.describe('Complex Interaction Examples', () => {
     test('should announce loading states to screen readers', async ({
         page,
     }) => {
-        await page.goto('/')
+        await page.goto('/forms')
 
         // Trigger an async action
-        await page.click('button:has-text("Load Data")')
+        const button = page.locator('button:has-text("Check the server")')
+        await button.click()
 
-        // Check for loading indicator with proper ARIA
+        // The button is busy, but keeps focus
+        await expect(button).toHaveAttribute('aria-busy', 'true')
+        await expect(button).toHaveAttribute('aria-disabled', 'true')
+        await expect(button).toBeFocused()
+
+        // Loading is announced in a status region
         const loadingIndicator = page.locator('[role="status"]', {
             hasText: /loading/i,
         })
-        await expect(loadingIndicator).toBeVisible()
-
-        // Or check for aria-live region
-        const liveRegion = page.locator('[aria-live="polite"]')
-        const liveText = await liveRegion.textContent()
-        expect(liveText).toMatch(/loading/i)
+        await expect(loadingIndicator).toHaveAttribute('aria-live', 'polite')
 
         // Wait for loading to complete
-        await page.waitForSelector('[role="status"]:has-text("loading")', {
-            state: 'hidden',
-        })
+        await expect(loadingIndicator).toHaveCount(0)
+        await expect(button).not.toHaveAttribute('aria-busy', 'true')
 
         await expectNoA11yViolations(page)
     })
 
     test('should announce success/error messages', async ({ page }) => {
-        await page.goto('/form')
+        await page.goto('/forms')
 
         // Submit form successfully
-        await page.fill('input[name="email"]', 'test@example.com')
+        await page.fill('input[name="username"]', 'alice')
+        await page.selectOption('select[name="plan"]', 'pro')
+        await page.check('input[name="terms"]')
         await page.click('button[type="submit"]')
 
-        // Success message should be announced
+        // Success message should be announced, in a polite live region
         const successMessage = page.locator('[role="status"]', {
             hasText: /success/i,
         })
         await expect(successMessage).toBeVisible()
+        await expect(successMessage).toHaveAttribute('aria-live', 'polite')
+
+        // It can be dismissed
+        await successMessage.getByRole('button', { name: 'Dismiss' }).click()
+        await expect(successMessage).toBeHidden()
+
+        await expectNoA11yViolations(page)
+    })
 
-        // Or check for alert role for errors
-        // const errorMessage = page.locator('[role="alert"]');
-        // await expect(errorMessage).toBeVisible();
+    test('should show button errors as alerts', async ({ page }) => {
+        await page.goto('/forms')
 
+        await page.click('button:has-text("Check the server")')
+
+        // Errors are announced right away
+        const errorMessage = page.locator('[role="alert"]', {
+            hasText: /server/i,
+        })
+        await expect(errorMessage).toBeVisible()
+        await expect(errorMessage).toHaveAttribute('aria-live', 'assertive')
+
+        await expectNoA11yViolations(page)
+    })
+
+    test('should add, edit and delete a note', async ({ page }) => {
+        await page.goto('/notes')
+        await page.waitForSelector('form')
+        await page.fill('input[name="username"]', 'demo')
+        await page.fill('input[name="password"]', 'demo')
+        await page.click('button[type="submit"]')
+        await expect(page).toHaveURL(/\/notes$/)
+
+        const text = 'A note from the tests ' + Date.now()
+        await page.fill('#text', text)
+        await page.click('button:has-text("Add note")')
+        const note = page.locator('.note', { hasText: text })
+        await expect(note).toBeVisible()
         await expectNoA11yViolations(page)
+
+        // the textarea takes focus, and focus goes back to Edit
+        await note.getByRole('button', { name: 'Edit' }).click()
+        const textarea = note.locator('textarea')
+        await expect(textarea).toBeFocused()
+        await textarea.fill(text + ' changed')
+        await note.getByRole('button', { name: 'Save' }).click()
+        const changed = page.locator('.note', { hasText: text + ' changed' })
+        await expect(changed.getByRole('button', { name: 'Edit' }))
+            .toBeFocused()
+
+        await changed.getByRole('button', { name: 'Delete' }).click()
+        await page.getByRole('alertdialog')
+            .getByRole('button', { name: 'Delete' })
+            .click()
+        await expect(changed).toHaveCount(0)
     })
 
-    test('should handle infinite scroll accessibly', async ({ page }) => {
+    test.skip('should handle infinite scroll accessibly', async ({ page }) => {
         await page.goto('/infinite-scroll')
 
         // Initial load should be accessible
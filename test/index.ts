@@ -1,10 +1,1257 @@
 import { test } from '@substrate-system/tapzero'
+import { validateContact } from '../shared/contact.js'
+import { ApiError, resource } from '../src/api.js'
+import { signal } from '@preact/signals'
+import {
+    type RouteDef,
+    NotFoundError,
+    RedirectError,
+    createRouter,
+    flatten,
+    navLinks,
+    notFound,
+    redirect,
+    sitemapEntries,
+    staticPaths
+} from '../src/router.js'
+import { Navigation } from '../src/navigation.js'
+import { link } from '../src/routes/link.js'
+import { lazy } from '../src/lazy.js'
+import { memoryAdapter, persist } from '../src/persist.js'
+import { History } from '../src/history.js'
+import { createForm } from '../src/form.js'
+import { confirm, confirmation } from '../src/confirm.js'
+import { moveIndex, typeahead } from '../src/keyboard.js'
+import {
+    announce,
+    announcement,
+    dismiss,
+    notifications,
+    notify
+} from '../src/notify.js'
+import { nextPath, requireUser, user } from '../src/auth.js'
+import {
+    createSession,
+    getUser,
+    sign,
+    unsign
+} from '../netlify/lib/session.js'
+import type { Context } from '@netlify/functions'
+import { HttpError, handler, withBody } from '../netlify/lib/http.js'
+import {
+    fixedWindow,
+    memoryStore,
+    rateLimit,
+    tokenBucket
+} from '../netlify/lib/rate-limit.js'
+import { ConflictError, memoryRepository } from '../netlify/lib/repository.js'
+import { eventStream as serverStream, formatEvent } from '../netlify/lib/sse.js'
+import {
+    type StreamEvent,
+    backoff,
+    createParser,
+    eventStream
+} from '../src/events.js'
+import { rules } from '../shared/schema.js'
+import { headerRules, inlineScripts, renderHeaders } from '../build/headers.js'
+import { fileUrl, pageFile, renderPage, renderShell } from '../build/html.js'
+import { renderRobots, renderSitemap } from '../build/sitemap.js'
+import {
+    HeadContext,
+    createHead,
+    headTags,
+    mergeHead,
+    renderHead,
+    useHead
+} from '../src/head.js'
+import { isCacheable, matchRule } from '../src/caching.js'
+import { createManifest, iconSizes, manifestTags } from '../build/manifest.js'
+import {
+    type BeforeInstallPromptEvent,
+    canInstall,
+    install,
+    installPrompt
+} from '../src/install.js'
+import { h, render } from 'preact'
+import { Button } from '../src/components/button.js'
+import { renderToString } from 'preact-render-to-string'
 
 test('example', async t => {
     t.ok('ok', 'should be an example')
 })
 
+test('validate the contact schema', t => {
+    const bad = validateContact({ name: '  ', email: 'nope', message: 'hi' })
+    t.equal(bad.ok, false, 'should not validate bad input')
+    if (!bad.ok) {
+        t.equal(bad.errors.name, 'Enter your name', 'should trim + require name')
+        t.equal(bad.errors.email, 'Enter a valid email address',
+            'should check the email format')
+        t.ok(!bad.errors.message, 'should not have a message error')
+    }
+
+    const good = validateContact({
+        name: 'Alice ',
+        email: 'alice@example.com',
+        message: 'hello'
+    })
+    t.ok(good.ok, 'should validate good input')
+    if (good.ok) t.equal(good.value.name, 'Alice', 'should trim the values')
+})
+
+test('resource state', async t => {
+    const res = resource<string, [string]>(async (_signal, name) => {
+        if (name === 'bad') throw new Error('oh no')
+        return 'hello ' + name
+    })
+
+    const p = res.run('alice')
+    t.equal(res.loading.value, true, 'should be loading')
+    t.equal(await p, 'hello alice', 'should resolve with the data')
+    t.equal(res.data.value, 'hello alice', 'should set the data signal')
+    t.equal(res.loading.value, false, 'should not be loading after')
+
+    t.equal(await res.run('bad'), undefined, 'should resolve undefined')
+    t.ok(res.error.value instanceof ApiError, 'should set an ApiError')
+    t.equal(res.error.value?.kind, 'network', 'should normalize the error')
+})
+
+test('resource aborts the previous request', async t => {
+    const res = resource<number, [number]>((signal, n) => {
+        return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => resolve(n), 20)
+            signal.addEventListener('abort', () => {
+                clearTimeout(timer)
+                reject(new DOMException('aborted', 'AbortError'))
+            })
+        })
+    })
+
+    const first = res.run(1)
+    const second = res.run(2)
+    t.equal(await first, undefined, 'first request should be aborted')
+    t.equal(await second, 2, 'second request should resolve')
+    t.equal(res.error.value, null, 'should not set an error for the abort')
+})
+
+test('route table', t => {
+    const Layout = () => null
+    const Page = () => null
+    const table:RouteDef[] = [
+        { path: '/', component: Page, nav: 'home' },
+        {
+            path: '/section',
+            layout: Layout,
+            nav: 'section',
+            children: [
+                { path: '', component: Page },
+                { path: '/:id', component: Page }
+            ]
+        }
+    ]
+
+    t.deepEqual(flatten(table).map(r => r.path),
+        ['/', '/section', '/section/:id'], 'should flatten the paths')
+    t.equal(flatten(table)[2].layouts[0], Layout,
+        'child routes should have the parent layout')
+    t.deepEqual(navLinks(table), [
+        { href: '/', text: 'home' },
+        { href: '/section', text: 'section' }
+    ], 'should create the nav links')
+    const paths = staticPaths([
+        ...table,
+        { path: '/data', component: Page, loader: () => 'data' },
+        { path: '/private', component: Page, guard: () => {} },
+        { path: '/dynamic', component: Page, prerender: false }
+    ])
+    t.deepEqual(paths, ['/', '/section'],
+        'should prerender only the routes without params, loaders, or guards')
+
+    const sitemap = sitemapEntries([
+        { path: '/', component: Page, sitemap: { priority: 1 } },
+        {
+            path: '/section',
+            component: Page,
+            children: [{
+                path: '/:id',
+                component: Page,
+                sitemap: { params: [{ id: 'a b' }], lastmod: '2025-01-31' }
+            }]
+        },
+        { path: '/login', component: Page, sitemap: false },
+        { path: '/private', component: Page, guard: () => {} }
+    ])
+    t.deepEqual(sitemap, [
+        { path: '/', priority: 1 },
+        { path: '/section' },
+        { path: '/section/a%20b', lastmod: '2025-01-31' }
+    ], 'should list the public routes, and fill in the params')
+})
+
+test('typed links', t => {
+    t.equal(link('/contact'), '/contact', 'should link to a static path')
+    t.equal(link('/docs/:page', { page: 'a b' }), '/docs/a%20b',
+        'should fill in and encode the params')
+
+    // @ts-expect-error not a route
+    link('/nope')
+    // @ts-expect-error missing params
+    link('/docs/:page')
+})
+
+test('lazy components', async t => {
+    const Page = () => null
+    let calls = 0
+    const lazyPage = lazy(async () => {
+        calls++
+        if (calls === 1) throw new Error('network')
+        return Page
+    })
+
+    t.equal(lazyPage.status.value, 'idle', 'should start idle')
+    try {
+        await lazyPage.load()
+        t.fail('should throw')
+    } catch (_err) {
+        t.equal(lazyPage.status.value, 'error', 'should be in an error state')
+    }
+
+    t.equal(await lazyPage.load(), Page, 'should retry after an error')
+    t.equal(lazyPage.status.value, 'ready', 'should be ready')
+    await lazyPage.load()
+    t.equal(calls, 2, 'should cache the loaded component')
+})
+
+test('route loaders', async t => {
+    const Page = () => null
+    const aborted:string[] = []
+    const router = createRouter([
+        { path: '/', component: Page },
+        {
+            path: '/slow/:id',
+            component: Page,
+            loader: ({ params, signal, query }) => {
+                signal.addEventListener('abort', () => aborted.push(params.id))
+                return sleep(20).then(() => params.id + query.get('q'))
+            }
+        },
+        {
+            path: '/bad',
+            component: Page,
+            loader: () => { throw new Error('bad') }
+        },
+        { path: '/missing', component: Page, loader: () => notFound() },
+        { path: '/old', component: Page, loader: () => redirect('/') }
+    ])
+
+    const state = {
+        route: signal('/slow/1'),
+        navigating: signal(false),
+        _setRoute: (href:string) => { state.route.value = href }
+    }
+    const nav = Navigation(router, state)
+    t.equal(state.navigating.value, true, 'should be navigating')
+    t.equal(nav.page.value, null, 'should not have a page yet')
+
+    state.route.value = '/slow/2?q=abc'
+    await nav.ready()
+    t.deepEqual(aborted, ['1'], 'should abort the stale loader')
+    t.equal(nav.page.value?.data, '2abc', 'should pass the loader data')
+    t.equal(nav.page.value?.params.id, '2', 'should pass the params')
+    t.equal(state.navigating.value, false, 'should be done navigating')
+
+    state.route.value = '/bad'
+    await sleep(0)
+    t.equal(nav.page.value?.error?.message, 'bad', 'should catch loader errors')
+
+    state.route.value = '/missing'
+    await sleep(0)
+    t.ok(nav.page.value?.error instanceof NotFoundError,
+        'should pass a not found error')
+
+    state.route.value = '/old'
+    await sleep(0)
+    t.equal(state.route.value, '/', 'should follow a redirect')
+    t.equal(nav.page.value?.href, '/', 'should render the new route')
+
+    state.route.value = '/nope'
+    await sleep(0)
+    t.equal(nav.page.value, null, 'should be null if no route matches')
+    nav.dispose()
+})
+
+test('persisted state', async t => {
+    const data = new Map([
+        ['todos', JSON.stringify({ version: 1, value: ['a', 'b'] })]
+    ])
+    const storage = memoryAdapter(data)
+    const todos = signal<{ text:string, done:boolean }[]>([])
+
+    const persisted = persist(todos, {
+        key: 'todos',
+        version: 2,
+        storage,
+        debounce: 10,
+        sync: false,
+        migrations: {
+            // version 1 was an array of strings
+            2: (prev:string[]) => prev.map(text => ({ text, done: false }))
+        }
+    })
+
+    await persisted.ready
+    t.deepEqual(todos.value, [
+        { text: 'a', done: false },
+        { text: 'b', done: false }
+    ], 'should migrate the stored value')
+
+    todos.value = [{ text: 'c', done: true }]
+    todos.value = [{ text: 'd', done: true }]
+    await sleep(30)
+    t.deepEqual(JSON.parse(data.get('todos')!), {
+        version: 2,
+        value: [{ text: 'd', done: true }]
+    }, 'should write the latest value with the current version')
+
+    await persisted.clear()
+    t.ok(!data.has('todos'), 'should remove the stored value')
+    t.deepEqual(todos.value, [], 'should reset to the initial value')
+    persisted.dispose()
+})
+
+test('persisted state from a newer version', async t => {
+    const stored = JSON.stringify({ version: 3, value: 'new' })
+    const data = new Map([['newer', stored]])
+    const value = signal('default')
+    const persisted = persist(value, {
+        key: 'newer',
+        version: 1,
+        storage: memoryAdapter(data),
+        debounce: 0,
+        sync: false
+    })
+
+    await persisted.ready
+    await sleep(10)
+    t.equal(value.value, 'default', 'should not read a newer value')
+    t.equal(data.get('newer'), stored, 'should not overwrite it')
+    persisted.dispose()
+})
+
+test('persisted state retries a failed write', async t => {
+    const data = new Map<string, string>()
+    const storage = memoryAdapter(data)
+    let fail = 2
+    const flaky = {
+        ...storage,
+        async set (key:string, value:string) {
+            if (fail-- > 0) throw new Error('QuotaExceededError')
+            return storage.set(key, value)
+        }
+    }
+    const count = signal(0)
+    const persisted = persist(count, {
+        key: 'flaky',
+        version: 1,
+        storage: flaky,
+        debounce: 5,
+        sync: false
+    })
+
+    await persisted.ready
+    count.value = 1
+    await sleep(80)
+    t.deepEqual(JSON.parse(data.get('flaky')!), { version: 1, value: 1 },
+        'should write again after it fails')
+    persisted.dispose()
+})
+
+test('persisted state syncs between tabs', async t => {
+    const storage = memoryAdapter()
+    const a = signal(0)
+    const b = signal(0)
+    const tabA = persist(a, { key: 'sync-test', version: 1, storage, debounce: 0 })
+    const tabB = persist(b, { key: 'sync-test', version: 1, storage, debounce: 0 })
+    await Promise.all([tabA.ready, tabB.ready])
+
+    a.value = 5
+    await sleep(20)
+    t.equal(b.value, 5, 'should update the other signal')
+
+    tabA.dispose()
+    tabB.dispose()
+})
+
+test('undo and redo actions', t => {
+    const a = signal(0)
+    const b = signal('x')
+    const untracked = signal(0)
+    const history = History({ a, b }, { limit: 2 })
+    const names:string[] = []
+    history.subscribe(entry => names.push(entry.name))
+
+    history.dispatch('both', () => {
+        a.value = 1
+        b.value = 'y'
+        history.dispatch('nested', () => { a.value = 2 })
+    })
+    t.deepEqual(names, ['both'], 'should batch nested actions in one entry')
+
+    history.dispatch('nothing', () => { untracked.value = 1 })
+    t.deepEqual(names, ['both'], 'should ignore untracked signals')
+
+    history.undo()
+    t.equal(a.value, 0, 'should undo the batched writes')
+    t.equal(b.value, 'x', 'should undo the batched writes')
+    t.ok(history.canRedo.value, 'should be able to redo')
+
+    history.redo()
+    t.equal(a.value, 2, 'should redo')
+    t.equal(b.value, 'y', 'should redo')
+
+    history.dispatch('three', () => { a.value = 3 })
+    history.dispatch('four', () => { a.value = 4 })
+    history.undo()
+    history.undo()
+    t.equal(history.canUndo.value, false, 'should only keep `limit` entries')
+    t.equal(a.value, 2, 'should undo to the oldest entry')
+})
+
+test('form state and validation', async t => {
+    const submitted:unknown[] = []
+    const form = createForm({
+        initial: { name: '', email: '', terms: false },
+        validators: {
+            name: rules.required('Enter a name'),
+            email: [
+                rules.email(),
+                async (value:string) => {
+                    await sleep(5)
+                    return value === 'taken@example.com' ? 'Taken' : null
+                }
+            ],
+            terms: (checked:boolean) => (checked ? null : 'Accept the terms')
+        },
+        onSubmit: (values) => {
+            submitted.push(values)
+            if (values.name === 'server') return { name: 'Bad name' }
+        }
+    })
+
+    t.equal(form.field('name').error, undefined,
+        'should not show errors for untouched fields')
+
+    t.equal(await form.submit(), false, 'should not submit invalid values')
+    t.equal(form.failedSubmits.value, 1, 'should count the failed submit')
+    t.deepEqual(form.visibleErrors.value.map(e => e.name),
+        ['name', 'email', 'terms'], 'should show all errors after submit')
+    t.equal(form.field('name').error, 'Enter a name', 'should pass the error')
+
+    form.set('name', 'alice')
+    form.set('email', 'taken@example.com')
+    form.set('terms', true)
+    await sleep(20)
+    t.equal(form.errors.value.email, 'Taken', 'should run async validators')
+    t.equal(form.field('terms').checked, true, 'should use `checked` for booleans')
+
+    form.set('email', 'alice@example.com')
+    t.equal(await form.submit(), true, 'should submit valid values')
+    t.deepEqual(submitted, [{
+        name: 'alice',
+        email: 'alice@example.com',
+        terms: true
+    }], 'should call onSubmit with the values')
+
+    form.set('name', 'server')
+    t.equal(await form.submit(), false, 'should fail with server errors')
+    t.equal(form.errors.value.name, 'Bad name', 'should set server errors')
+
+    form.reset()
+    t.deepEqual(form.values.value, { name: '', email: '', terms: false },
+        'should reset the values')
+})
+
+test('confirm', async t => {
+    const first = confirm({ title: 'First?' })
+    t.equal(confirmation.value?.title, 'First?', 'should show the question')
+
+    const second = confirm({ title: 'Second?' })
+    t.equal(await first, false, 'a new question should cancel the first')
+    t.equal(confirmation.value?.title, 'Second?',
+        'should show the new question')
+
+    confirmation.value!.resolve(true)
+    t.equal(await second, true, 'should resolve with the answer')
+    t.equal(confirmation.value, null, 'should clear the question')
+})
+
+test('keyboard navigation', t => {
+    t.equal(moveIndex('ArrowRight', 0, 3), 1, 'should move to the next item')
+    t.equal(moveIndex('ArrowRight', 2, 3), 0, 'should wrap at the end')
+    t.equal(moveIndex('ArrowLeft', 0, 3), 2, 'should wrap at the start')
+    t.equal(moveIndex('End', 0, 3), 2, 'End should go to the last item')
+    t.equal(moveIndex('ArrowDown', 0, 3), null,
+        'should ignore keys for the other orientation')
+    t.equal(moveIndex('ArrowDown', 0, 3, 'vertical'), 1,
+        'should use up and down for vertical lists')
+
+    const find = typeahead()
+    const labels = ['Apple', 'Banana', 'Blueberry', 'Cherry']
+    t.equal(find('b', labels, 0), 1, 'should find the first match')
+    t.equal(find('l', labels, 1), 2, 'should match the typed characters')
+
+    const again = typeahead()
+    t.equal(again('b', labels, 1), 2,
+        'typing the same letter should go to the next match')
+    t.equal(again('z', labels, 2), null, 'should return null for no match')
+    t.equal(again('Shift', labels, 2), null, 'should ignore other keys')
+})
+
+test('notifications', t => {
+    const id = notify({ message: 'hello' })
+    t.deepEqual(notifications.value.map(n => [n.kind, n.timeout]),
+        [['info', 5000]], 'should add an info notification with a timeout')
+
+    notify({ kind: 'error', message: 'oh no' })
+    t.equal(notifications.value[1].timeout, 0,
+        'errors should stay until they are dismissed')
+
+    dismiss(id)
+    t.deepEqual(notifications.value.map(n => n.message), ['oh no'],
+        'should dismiss by ID')
+
+    for (let i = 0; i < 10; i++) notify({ message: 'n' + i })
+    t.equal(notifications.value.length, 5, 'should keep the newest five')
+    t.equal(notifications.value[4].message, 'n9',
+        'should keep the newest last')
+    notifications.value = []
+})
+
+test('overlapping announcements', t => {
+    const first = announce('Loading')
+    const second = announce('Saving')
+    t.equal(announcement.value, 'Saving', 'should announce the newest')
+
+    first()
+    t.equal(announcement.value, 'Saving',
+        'clearing one message should keep the other')
+    second()
+    t.equal(announcement.value, '', 'should be empty when all are cleared')
+})
+
+test('a form is not submitted twice', async t => {
+    let calls = 0
+    const form = createForm<{ name:string }>({
+        initial: { name: 'alice' },
+        onSubmit: async () => {
+            calls++
+            await sleep(10)
+        }
+    })
+
+    const [first, second] = await Promise.all([form.submit(), form.submit()])
+    t.equal(calls, 1, 'should call onSubmit once')
+    t.equal(first, true, 'the first submit should succeed')
+    t.equal(second, false, 'the second submit should be ignored')
+})
+
+test('button errors', async t => {
+    notifications.value = []
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const events:CustomEvent[] = []
+    let handle = false
+    root.addEventListener('error', (ev:Event) => {
+        events.push(ev as CustomEvent)
+        if (handle) ev.preventDefault()
+    })
+
+    let fail:(err:Error)=>void = () => {}
+    const onClick = () => new Promise<void>((_resolve, reject) => {
+        fail = reject
+    })
+    render(h(Button, { onClick }, 'Save'), root)
+    const button = root.querySelector('button')!
+
+    button.click()
+    await sleep(0)
+    t.equal(button.getAttribute('aria-busy'), 'true', 'should be busy')
+    t.ok(button.classList.contains('spinning'), 'should spin')
+    t.equal(announcement.value, 'Loading', 'should announce the pending click')
+
+    fail(new Error('oh no'))
+    await sleep(0)
+    t.equal(button.getAttribute('aria-busy'), null,
+        'should not be busy after an error')
+    t.ok(!button.classList.contains('spinning'), 'should stop spinning')
+    t.equal(announcement.value, '', 'should clear the announcement')
+    t.equal(events.length, 1, 'should dispatch an error event')
+    t.equal(events[0].detail.message, 'oh no', 'the error should be the detail')
+    t.ok(events[0].bubbles && events[0].cancelable,
+        'the event should bubble, and be cancelable')
+    t.deepEqual(notifications.value.map(n => n.message), ['oh no'],
+        'should show the error')
+
+    notifications.value = []
+    handle = true
+    button.click()
+    await sleep(0)
+    fail(new Error('handled'))
+    await sleep(0)
+    t.equal(events.length, 2, 'should dispatch another event')
+    t.equal(notifications.value.length, 0,
+        'preventDefault should stop the notification')
+
+    handle = false
+    const errors:unknown[] = []
+    render(h(Button, { onClick, onError: err => errors.push(err) }, 'Save'), root)
+    button.click()
+    await sleep(0)
+    fail(new Error('callback'))
+    await sleep(0)
+    t.equal((errors[0] as Error).message, 'callback', 'should call onError')
+    t.equal(notifications.value.length, 0,
+        'onError should replace the notification')
+
+    render(null, root)
+    root.remove()
+})
+
+test('button restart and unmount', async t => {
+    const root = document.createElement('div')
+    document.body.appendChild(root)
+    const signals:AbortSignal[] = []
+    let sync = false
+    const onClick = (_ev:MouseEvent, signal:AbortSignal) => {
+        signals.push(signal)
+        if (sync) return
+        return new Promise<void>((_resolve, reject) => {
+            signal.addEventListener('abort', () => reject(signal.reason))
+        })
+    }
+    render(h(Button, { onClick, concurrency: 'restart' }, 'Search'), root)
+    const button = root.querySelector('button')!
+
+    button.click()
+    await sleep(0)
+    button.click()
+    await sleep(0)
+    t.ok(signals[0].aborted, 'a second click should abort the first')
+    t.ok(!signals[1].aborted, 'the second click should be pending')
+    t.equal(button.getAttribute('aria-busy'), 'true', 'should still be busy')
+
+    render(null, root)
+    await sleep(0)
+    t.ok(signals[1].aborted, 'unmounting should abort the click')
+    t.equal(announcement.value, '',
+        'should clear the announcement of every click')
+
+    render(h(Button, { onClick, concurrency: 'restart' }, 'Search'), root)
+    const next = root.querySelector('button')!
+    next.click()
+    await sleep(0)
+    sync = true
+    next.click()
+    await sleep(0)
+    t.equal(next.getAttribute('aria-busy'), null,
+        'a synchronous restart should not be busy')
+    t.equal(announcement.value, '', 'should clear the announcement')
+
+    render(null, root)
+    root.remove()
+})
+
+test('signed session cookies', async t => {
+    const secret = 'test secret'
+    const signed = await sign('hello', secret)
+    t.equal(await unsign(signed, secret), 'hello', 'should verify a signature')
+    t.equal(await unsign(signed, 'wrong secret'), null,
+        'should not verify with a different secret')
+    t.equal(await unsign('hellO' + signed.slice(5), secret), null,
+        'should not verify a changed value')
+
+    const req = new Request('https://example.com/api/login')
+    const alice = { id: '1', username: 'alice', name: 'Alice' }
+    const setCookie = await createSession(req, alice, secret)
+    t.ok(setCookie.includes('HttpOnly'), 'should be HTTP only')
+    t.ok(setCookie.includes('Secure'), 'should be secure over https')
+
+    const cookie = setCookie.split(';')[0]
+    const withCookie = new Request('https://example.com/api/account', {
+        headers: { cookie: 'theme=dark; ' + cookie }
+    })
+    t.deepEqual(await getUser(withCookie, secret), alice,
+        'should get the user from the cookie')
+    t.equal(await getUser(withCookie, 'wrong secret'), null,
+        'should not trust a cookie signed with another secret')
+    t.equal(await getUser(new Request('https://example.com/'), secret), null,
+        'should return null without a cookie')
+})
+
+test('route guard for logged in users', async t => {
+    user.value = null
+    const ctx = {
+        href: '/account?tab=1',
+        params: {},
+        splats: [],
+        query: new URLSearchParams('tab=1'),
+        signal: new AbortController().signal
+    }
+
+    try {
+        await requireUser(ctx)
+        t.fail('should throw')
+    } catch (err) {
+        t.ok(err instanceof RedirectError, 'should redirect')
+        t.equal((err as RedirectError).to, '/login?next=%2Faccount%3Ftab%3D1',
+            'should redirect to the login route, and back')
+    }
+
+    user.value = { id: '1', username: 'alice', name: 'Alice' }
+    await requireUser(ctx)
+    t.ok(true, 'should let a logged in user through')
+    user.value = null
+
+    t.equal(nextPath(new URLSearchParams('next=/account')), '/account',
+        'should go to the next path after logging in')
+    t.equal(nextPath(new URLSearchParams('next=//evil.com')), '/',
+        'should not go to another site')
+    t.equal(nextPath(new URLSearchParams('next=https://evil.com')), '/',
+        'should only allow paths')
+})
+
+test('function handlers', async t => {
+    const context = () => ({ requestId: 'abc' }) as Context
+    const fn = handler({
+        GET: async () => Response.json({ hello: 'world' }),
+        POST: withBody(validateContact, async (_req, _context, body) => {
+            return Response.json({ name: body.name })
+        }, { limit: 200 }),
+        DELETE: async () => { throw new HttpError(403, 'Not yours') }
+    }, { cache: 'short' })
+    const url = 'https://example.com/api/example'
+
+    const get = await fn(new Request(url), context())
+    t.deepEqual(await get.json(), { hello: 'world' }, 'should call GET')
+    t.equal(get.headers.get('X-Request-Id'), 'abc', 'should add the request ID')
+    t.ok(get.headers.get('Netlify-CDN-Cache-Control'),
+        'should add cache headers')
+
+    const head = await fn(new Request(url, { method: 'HEAD' }), context())
+    t.equal(head.status, 200, 'should answer HEAD with GET')
+
+    const put = await fn(new Request(url, { method: 'PUT' }), context())
+    t.equal(put.status, 405, 'should not allow other methods')
+    t.equal(put.headers.get('Allow'), 'GET, POST, DELETE, HEAD, OPTIONS',
+        'should list the allowed methods')
+    t.deepEqual(await put.json(), {
+        ok: false,
+        error: 'Method not allowed',
+        requestId: 'abc'
+    }, 'should respond with the error envelope')
+
+    const options = await fn(new Request(url, { method: 'OPTIONS' }), context())
+    t.equal(options.status, 204, 'should answer OPTIONS')
+    t.equal(options.headers.get('Allow'), 'GET, POST, DELETE, HEAD, OPTIONS',
+        'should list the methods for OPTIONS')
+
+    const post = (body:string, type = 'application/json') => {
+        return fn(new Request(url, {
+            method: 'POST',
+            headers: { 'Content-Type': type },
+            body
+        }), context())
+    }
+    const message = { name: 'Alice', email: 'a@example.com', message: 'hi' }
+    const ok = await post(JSON.stringify(message))
+    t.deepEqual(await ok.json(), { name: 'Alice' }, 'should parse the body')
+    t.equal(ok.headers.get('Netlify-CDN-Cache-Control'), null,
+        'should not cache a POST')
+
+    t.equal((await post('hello', 'text/plain')).status, 415,
+        'should only accept JSON')
+    t.equal((await post('{"name":')).status, 400, 'should not parse bad JSON')
+    t.equal((await post(JSON.stringify({
+        ...message,
+        message: 'a'.repeat(200)
+    }))).status, 413, 'should limit the body size')
+
+    const invalid = await post(JSON.stringify({ ...message, email: 'nope' }))
+    t.equal(invalid.status, 422, 'should validate the body')
+    t.deepEqual((await invalid.json()).errors, {
+        email: 'Enter a valid email address'
+    }, 'should return the field errors')
+
+    const del = await fn(new Request(url, { method: 'DELETE' }), context())
+    t.equal(del.status, 403, 'should use the status of an HttpError')
+    t.equal(del.headers.get('Cache-Control'), 'no-store',
+        'should not cache errors')
+
+    const broken = handler({
+        GET: async () => { throw new Error('oh no') }
+    })
+    const error = console.error
+    console.error = () => {}
+    const res = await broken(new Request(url), context())
+    console.error = error
+    t.equal(res.status, 500, 'should respond with a 500 for other errors')
+    t.equal((await res.json()).error, 'Something went wrong',
+        'should not leak the error message')
+})
+
+test('CORS allow list', async t => {
+    const context = () => ({ requestId: 'abc' }) as Context
+    const fn = handler({
+        GET: async () => Response.json({ hello: 'world' }),
+        POST: async () => Response.json({ ok: true })
+    }, {
+        cors: { origins: ['https://app.example.com'], credentials: true }
+    })
+    const url = 'https://example.com/api/example'
+    const request = (origin:string, init:RequestInit = {}) => {
+        return fn(new Request(url, {
+            ...init,
+            headers: { Origin: origin, ...init.headers }
+        }), context())
+    }
+
+    const get = await request('https://app.example.com')
+    t.equal(get.headers.get('Access-Control-Allow-Origin'),
+        'https://app.example.com', 'should allow a listed origin')
+    t.equal(get.headers.get('Access-Control-Allow-Credentials'), 'true',
+        'should allow credentials')
+    t.equal(get.headers.get('Vary'), 'Origin', 'should vary by origin')
+
+    const other = await request('https://evil.example.com')
+    t.equal(other.status, 200, 'should still respond to other origins')
+    t.equal(other.headers.get('Access-Control-Allow-Origin'), null,
+        'should not add CORS headers for other origins')
+
+    const preflight = await request('https://app.example.com', {
+        method: 'OPTIONS',
+        headers: {
+            'Access-Control-Request-Method': 'POST',
+            'Access-Control-Request-Headers': 'content-type'
+        }
+    })
+    t.equal(preflight.status, 204, 'should answer a preflight request')
+    t.equal(preflight.headers.get('Access-Control-Allow-Methods'),
+        'GET, POST, HEAD, OPTIONS', 'should allow the methods')
+    t.equal(preflight.headers.get('Access-Control-Allow-Headers'),
+        'Content-Type, Authorization', 'should allow the headers')
+
+    const badPreflight = await request('https://evil.example.com', {
+        method: 'OPTIONS',
+        headers: { 'Access-Control-Request-Method': 'POST' }
+    })
+    t.equal(badPreflight.status, 403,
+        'should refuse a preflight request from another origin')
+    t.equal(badPreflight.headers.get('Access-Control-Allow-Origin'), null,
+        'should not add CORS headers to a refused preflight')
+
+    const any = handler({
+        GET: async () => Response.json({ hello: 'world' })
+    }, { cors: { origins: ['*'], credentials: true } })
+    const res = await any(new Request(url, {
+        headers: { Origin: 'https://evil.example.com' }
+    }), context())
+    t.equal(res.headers.get('Access-Control-Allow-Origin'), '*',
+        'should allow any origin')
+    t.equal(res.headers.get('Access-Control-Allow-Credentials'), null,
+        'should not allow credentials from any origin')
+})
+
+test('security headers', async t => {
+    const html = `<html><head>
+        <script type="module" crossorigin src="/assets/index.js"></script>
+        <script>window.theme = 'dark'</script>
+        <script type="application/json" id="data">{"a":1}</script>
+    </head></html>`
+
+    t.deepEqual(inlineScripts(html), ["window.theme = 'dark'"],
+        'should find only the inline scripts')
+
+    const rules = await headerRules([html], {
+        csp: { 'img-src': ['https://images.example.com'] }
+    })
+    const headers = rules['/*']
+    const csp = headers['Content-Security-Policy']
+    t.ok(csp.includes("script-src 'self' " +
+        "'sha256-+EugEA+0sGJALn0dSb4A1tTpcAu8FeKTIdqYR0gmLwM='"),
+    'should allow the inline script by its hash')
+    t.ok(!csp.includes('unsafe-inline'), 'should not allow any inline script')
+    t.ok(csp.includes("img-src 'self' data: https://images.example.com"),
+        'should add to the default directives')
+    t.ok(csp.includes("frame-ancestors 'none'"), 'should not allow framing')
+    t.equal(headers['Referrer-Policy'], 'strict-origin-when-cross-origin',
+        'should set the referrer policy')
+    t.ok(headers['Permissions-Policy'].includes('camera=()'),
+        'should set the permissions policy')
+    t.equal(headers['X-Content-Type-Options'], 'nosniff',
+        'should not let browsers guess the content type')
+    t.equal(headers['Access-Control-Allow-Origin'], undefined,
+        'should not add CORS headers to static files')
+    t.equal(headers['X-Robots-Tag'], 'noindex',
+        'should not be indexed by default')
+    const production = await headerRules([html], { indexable: true })
+    t.equal(production['/*']['X-Robots-Tag'], undefined,
+        'should be indexed in production')
+
+    const file = renderHeaders(rules)
+    t.ok(file.startsWith('/*\n    Referrer-Policy: strict-origin'),
+        'should render the _headers format')
+    t.ok(file.includes('/assets/*\n    Cache-Control: public, max-age=31536000'),
+        'should cache the hashed assets')
+})
+
+test('prerendered pages', t => {
+    t.equal(pageFile('/'), 'index.html', 'should make the home page index.html')
+    t.equal(pageFile('/docs/routes'), 'docs/routes.html',
+        'should not need a trailing slash')
+    t.equal(fileUrl('docs/routes.html'), '/docs/routes',
+        'should serve a page without .html')
+    t.equal(fileUrl('index.html'), '/', 'should serve index.html at /')
+
+    const template = '<title>Example</title><div id="root"></div>'
+    const page = renderPage(template, {
+        path: '/',
+        html: '<p>$&</p>',
+        head: '<title>A</title>'
+    })
+    t.equal(page,
+        '<title>A</title><div id="root" data-path="/"><p>$&</p></div>',
+        'should put the page and the head in the template')
+    t.throws(() => renderPage('<div id="root">x</div>', {
+        path: '/',
+        html: '',
+        head: ''
+    }), /empty/, 'should need an empty root')
+    t.equal(renderShell(template, '<title>ABC</title>'),
+        '<title>ABC</title><div id="root"></div>',
+        'the empty page should get the default head')
+})
+
+test('sitemap and robots', t => {
+    const sitemap = renderSitemap([
+        { path: '/', priority: 1 },
+        { path: '/a&b', lastmod: '2025-01-31' }
+    ], 'https://example.com')
+    t.ok(sitemap.includes('<loc>https://example.com/</loc>\n' +
+        '    <priority>1</priority>'), 'should make absolute URLs')
+    t.ok(sitemap.includes('<loc>https://example.com/a&amp;b</loc>\n' +
+        '    <lastmod>2025-01-31</lastmod>'), 'should escape the URLs')
+
+    t.equal(renderRobots({ indexable: false }), 'User-agent: *\nDisallow: /\n',
+        'should disallow everything for a preview')
+    t.ok(renderRobots({
+        indexable: true,
+        sitemap: 'https://example.com/sitemap.xml'
+    }).endsWith('Allow: /\n\nSitemap: https://example.com/sitemap.xml\n'),
+    'should link to the sitemap in production')
+})
+
+test('service worker caching rules', t => {
+    const rules = [
+        { path: '/api/events', strategy: 'network-only' as const },
+        { path: '/api/*', strategy: 'network-first' as const }
+    ]
+    t.equal(matchRule(rules, '/api/events')?.strategy, 'network-only',
+        'should use the first rule that matches')
+    t.equal(matchRule(rules, '/api/notes')?.strategy, 'network-first',
+        'should match a prefix')
+    t.equal(matchRule(rules, '/assets/index.js'), null,
+        'should not match other paths')
+
+    t.ok(isCacheable(new Response('ok')), 'should cache a response')
+    t.ok(!isCacheable(new Response('ok', {
+        headers: { 'Cache-Control': 'no-store' }
+    })), 'should not cache a private response')
+    t.ok(!isCacheable(new Response('', { status: 500 })),
+        'should not cache an error')
+})
+
+test('web app manifest', t => {
+    const opts = {
+        name: 'Example app',
+        shortName: 'Example',
+        themeColor: '#00c8ff',
+        backgroundColor: '#ffffff',
+        icon: 'src/icon.svg'
+    }
+    const manifest = createManifest(opts, [
+        { href: '/', text: 'home' },
+        { href: '/contact', text: 'contact' }
+    ])
+
+    t.equal(manifest.short_name, 'Example', 'should use the short name')
+    t.equal(manifest.display, 'standalone', 'should be standalone by default')
+    t.deepEqual(manifest.shortcuts, [{ name: 'contact', url: '/contact' }],
+        'should make shortcuts from the nav, except the start page')
+    const icons = manifest.icons as { sizes:string; purpose:string }[]
+    t.deepEqual(icons.map(icon => icon.sizes + ' ' + icon.purpose), [
+        '192x192 any',
+        '512x512 any',
+        '512x512 maskable'
+    ], 'should list the icons')
+    t.deepEqual(iconSizes(opts), [32, 180, 192, 512],
+        'should make a favicon and a touch icon too')
+    t.deepEqual(manifestTags(opts)[1].attrs, {
+        name: 'theme-color',
+        content: '#00c8ff'
+    }, 'should set the theme color')
+})
+
+test('install prompt', async t => {
+    t.equal(canInstall.value, false, 'should not be installable at first')
+    t.equal(await install(), false, 'should do nothing without a prompt')
+
+    let prompted = 0
+    installPrompt.value = Object.assign(new Event('beforeinstallprompt'), {
+        prompt: async () => { prompted++ },
+        userChoice: Promise.resolve({
+            outcome: 'accepted' as const,
+            platform: 'web'
+        })
+    }) as BeforeInstallPromptEvent
+    t.equal(canInstall.value, true, 'should be installable with a prompt')
+    t.equal(await install(), true, 'should return the user choice')
+    t.equal(prompted, 1, 'should show the prompt')
+    t.equal(canInstall.value, false, 'should only use the prompt once')
+})
+
+test('document head', t => {
+    const opts = {
+        titleTemplate: '%s · ABC',
+        defaultTitle: 'ABC',
+        origin: 'https://example.com'
+    }
+    const head = headTags(mergeHead([
+        { title: 'Home', description: 'default', canonical: '/' },
+        { title: 'Contact & more', og: { type: 'article' } }
+    ]), opts)
+
+    t.equal(head.title, 'Contact & more · ABC', 'should use the title template')
+    t.deepEqual(head.tags.find(tag => tag.attrs.rel === 'canonical')?.attrs, {
+        rel: 'canonical',
+        href: 'https://example.com/'
+    }, 'should make the canonical URL absolute')
+    const content = (key:string) => head.tags.find(tag => {
+        return tag.attrs.name === key || tag.attrs.property === key
+    })?.attrs.content
+    t.equal(content('description'), 'default',
+        'should keep the fields a later entry does not have')
+    t.equal(content('og:type'), 'article', 'should merge the Open Graph tags')
+    t.equal(content('og:title'), 'Contact & more',
+        'should not use the template for Open Graph')
+    t.equal(content('twitter:card'), 'summary', 'should add a Twitter card')
+    t.equal(headTags({}, opts).title, 'ABC', 'should use the default title')
+
+    t.ok(renderHead(head).startsWith(
+        '<title>Contact &amp; more · ABC</title>\n' +
+        '<meta data-head name="description" content="default">'
+    ), 'should render the head as HTML')
+
+    // a parent entry comes before its child
+    const manager = createHead(opts)
+    const Page = () => {
+        useHead({ title: 'Page', robots: 'noindex' })
+        return null
+    }
+    const Layout = () => {
+        useHead({ title: 'Layout' })
+        return h(Page, null)
+    }
+    renderToString(h(HeadContext.Provider, { value: manager }, h(Layout, null)))
+    t.equal(manager.current.value.title, 'Page · ABC',
+        'a child should take precedence over its parent')
+
+    const entry = manager.add({ title: 'Dialog' })
+    t.equal(manager.current.value.title, 'Dialog · ABC', 'should add an entry')
+    entry.remove()
+    t.equal(manager.current.value.title, 'Page · ABC', 'should remove an entry')
+})
+
+test('rate limit algorithms', t => {
+    const fixed = fixedWindow({ limit: 2, window: 1000 })
+    let a = fixed.take(null, 0)
+    t.ok(a.allowed, 'should allow the first request')
+    a = fixed.take(a.state, 100)
+    t.ok(a.allowed, 'should allow requests up to the limit')
+    t.equal(a.remaining, 0, 'should count the remaining requests')
+    a = fixed.take(a.state, 200)
+    t.ok(!a.allowed, 'should not allow requests over the limit')
+    t.equal(a.wait, 800, 'should wait until the end of the window')
+    a = fixed.take(a.state, 1000)
+    t.ok(a.allowed, 'should allow requests in the next window')
+
+    const bucket = tokenBucket({ limit: 1, window: 1000, burst: 2 })
+    let b = bucket.take(null, 0)
+    b = bucket.take(b.state, 0)
+    t.ok(b.allowed, 'should allow a burst')
+    b = bucket.take(b.state, 0)
+    t.ok(!b.allowed, 'should not allow more than the burst')
+    t.equal(b.wait, 1000, 'should wait for the next token')
+    b = bucket.take(b.state, 500)
+    t.ok(!b.allowed, 'should not allow part of a token')
+    b = bucket.take(b.state, 1000)
+    t.ok(b.allowed, 'should add tokens back over time')
+})
+
+test('rate limit middleware', async t => {
+    const limit = rateLimit({
+        algorithm: fixedWindow({ limit: 2, window: 60_000 }),
+        store: memoryStore()
+    })
+    const fn = handler({
+        POST: limit(async () => Response.json({ ok: true }))
+    })
+    const url = 'https://example.com/api/contact'
+    const post = (ip:string) => fn(new Request(url, { method: 'POST' }), {
+        ip,
+        requestId: 'abc'
+    } as Context)
+
+    const first = await post('1.1.1.1')
+    t.equal(first.headers.get('RateLimit-Remaining'), '1',
+        'should add rate limit headers')
+    await post('1.1.1.1')
+    const limited = await post('1.1.1.1')
+    t.equal(limited.status, 429, 'should respond with a 429')
+    t.equal(limited.headers.get('Retry-After'), '60',
+        'should say when to try again')
+    t.equal((await limited.json()).error, 'Too many requests. Try again later.',
+        'should use the error envelope')
+    t.equal((await post('2.2.2.2')).status, 200,
+        'should limit each IP address on its own')
+    t.equal((await fn(new Request(url, { method: 'OPTIONS' }), {
+        ip: '1.1.1.1'
+    } as Context)).status, 204, 'should not limit OPTIONS requests')
+    const other = (method:string) => fn(new Request(url, { method }), {
+        ip: '3.3.3.3'
+    } as Context)
+    await other('OPTIONS')
+    await other('GET')
+    t.equal((await other('POST')).headers.get('RateLimit-Remaining'), '1',
+        'preflight and 405 requests should not use up the limit')
+})
+
+test('repository', async t => {
+    const repo = memoryRepository<{ text:string }>()
+    const first = await repo.put('alice/1', { text: 'hello' })
+    t.deepEqual(await repo.get('alice/1'), first, 'should get a value')
+    t.equal(await repo.get('alice/2'), null, 'should return null for no value')
+
+    const second = await repo.put('alice/1', { text: 'hi' }, {
+        etag: first.etag
+    })
+    t.notEqual(second.etag, first.etag, 'should change the etag')
+
+    try {
+        await repo.put('alice/1', { text: 'stale' }, { etag: first.etag })
+        t.fail('should throw')
+    } catch (err) {
+        t.ok(err instanceof ConflictError, 'should not save an old version')
+        t.equal((err as ConflictError).status, 412, 'should be a 412')
+    }
+
+    try {
+        await repo.put('alice/1', { text: 'new' }, { onlyIfNew: true })
+        t.fail('should throw')
+    } catch (err) {
+        t.ok(err instanceof ConflictError, 'should not replace with onlyIfNew')
+    }
+    t.equal((await repo.get('alice/1'))?.value.text, 'hi',
+        'should keep the value after a conflict')
+
+    await repo.put('alice/2', { text: 'two' })
+    await repo.put('alice/3', { text: 'three' })
+    await repo.put('bob/1', { text: 'bob' })
+
+    const page1 = await repo.list({ prefix: 'alice/', limit: 2 })
+    t.deepEqual(page1.items.map(i => i.key), ['alice/1', 'alice/2'],
+        'should list a page of keys with the prefix')
+    t.equal(page1.cursor, 'alice/2', 'should return a cursor')
+    const page2 = await repo.list({
+        prefix: 'alice/',
+        limit: 2,
+        cursor: page1.cursor
+    })
+    t.deepEqual(page2.items.map(i => i.value.text), ['three'],
+        'should list the next page')
+    t.equal(page2.cursor, null, 'should not have a cursor on the last page')
+
+    await repo.delete('alice/2')
+    t.equal(await repo.get('alice/2'), null, 'should delete a value')
+})
+
+test('parse server-sent events', t => {
+    const events:StreamEvent[] = []
+    const retries:number[] = []
+    const parse = createParser(ev => events.push(ev), ms => retries.push(ms))
+
+    parse('retry: 500\n\n: a comment\nevent: count\nid: 1\ndata: {"count"')
+    t.equal(events.length, 0, 'should wait for the end of an event')
+    parse(':1}\n\ndata: one\r')
+    parse('\ndata: two\r\n\r\n')
+
+    t.deepEqual(retries, [500], 'should read the retry time')
+    t.deepEqual(events, [
+        { type: 'count', data: '{"count":1}', lastEventId: '1' },
+        { type: 'message', data: 'one\ntwo', lastEventId: '1' }
+    ], 'should parse events split between chunks')
+
+    const text = formatEvent({ event: 'note', id: '2', data: 'a\nb' })
+    t.equal(text, 'event: note\nid: 2\ndata: a\ndata: b\n\n',
+        'should format a multi-line event')
+    parse(text)
+    t.deepEqual(events[2], { type: 'note', data: 'a\nb', lastEventId: '2' },
+        'should parse a formatted event')
+
+    t.equal(backoff(1, {}, () => 1), 1000, 'should wait the minimum at first')
+    t.equal(backoff(3, {}, () => 1), 4000, 'should double the wait')
+    t.equal(backoff(20, {}, () => 1), 30_000, 'should not wait too long')
+    t.equal(backoff(3, {}, () => 0), 2000, 'should add some randomness')
+})
+
+test('event stream reconnects with Last-Event-ID', async t => {
+    const realFetch = globalThis.fetch
+    const requests:Request[] = []
+    globalThis.fetch = async (input, init) => {
+        const req = new Request('https://example.com' + input, init)
+        requests.push(req)
+        const n = requests.length
+        return serverStream(req, (send) => {
+            send({ event: 'count', id: String(n), data: { count: n } })
+        }, { retry: 10 })
+    }
+
+    const stream = eventStream('events')
+    const count = stream.signal<{ count:number }|null>('count', null)
+    t.equal(stream.signal('count', null), count,
+        'should return the same signal for a type')
+    stream.open()
+
+    for (let i = 0; i < 100 && (count.value?.count || 0) < 2; i++) {
+        await new Promise(resolve => setTimeout(resolve, 10))
+    }
+    stream.close()
+    globalThis.fetch = realFetch
+
+    t.equal(count.value?.count, 2, 'should put the data in the signal')
+    t.equal(requests[0].url, 'https://example.com/api/events',
+        'should request the path')
+    t.equal(requests[0].headers.get('Last-Event-ID'), null,
+        'should not send an ID the first time')
+    t.equal(requests[1].headers.get('Last-Event-ID'), '1',
+        'should send the last event ID when it reconnects')
+    t.equal(stream.status.value, 'closed', 'should be closed')
+})
+
 test('all done', () => {
     // @ts-expect-error tests
     window.testsFinished = true
 })
+
+function sleep (ms:number):Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
+}
@@ -2,6 +2,14 @@ import { defineConfig } from 'vite'
 import browserslist from 'browserslist'
 import { browserslistToTargets } from 'lightningcss'
 import preact from '@preact/preset-vite'
+import { securityHeaders } from './build/headers.js'
+import { prerender } from './build/prerender.js'
+import { serviceWorker } from './build/service-worker.js'
+import { webManifest } from './build/pwa.js'
+
+// Netlify sets the deploy context. Only production is indexed by search
+// engines, not deploy previews or branch deploys.
+const indexable = process.env.CONTEXT === 'production'
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -15,7 +23,30 @@ export default defineConfig({
             babel: {
                 sourceMaps: 'both'
             }
-        })
+        }),
+        // static routes as HTML, in `public/<route>.html`, and the sitemap
+        prerender({ indexable }),
+        // the web app manifest and icons, so the app can be installed
+        webManifest({
+            name: 'ABC',
+            description: 'A template for applications using preact, htm, ' +
+                'and netlify.',
+            themeColor: '#00c8ff',
+            backgroundColor: '#ffffff',
+            display: 'standalone',
+            icon: 'src/icon.svg'
+        }),
+        // `sw.js`, for offline use
+        serviceWorker({
+            runtimeCaching: [
+                // a stream, not something to cache
+                { path: '/api/events', strategy: 'network-only' },
+                // responses with `Cache-Control: no-store` are not cached
+                { path: '/api/*', strategy: 'network-first', timeout: 5000 }
+            ]
+        }),
+        // Content-Security-Policy and other headers, in `public/_headers`
+        securityHeaders({ indexable })
     ],
     // https://github.com/vitejs/vite/issues/8644#issuecomment-1159308803
     esbuild: {